@@ -0,0 +1,116 @@
+#!/usr/bin/env bun
+/**
+ * Benchmark for locating hunk context in large files.
+ *
+ * Usage:
+ *   bun run bench [lines]
+ *
+ * Compares the indexed search used by the parser with the linear scan it
+ * replaced, checks that both find the same positions, and times whole-patch
+ * parsing and generation on the same file.
+ */
+
+import { findContext, parsePatch } from '../lib/apply-patch';
+import { createPatch } from '../lib/create-patch';
+import { LineIndex } from '../lib/line-index';
+
+const LINES = Number(process.argv[2] ?? 100_000);
+
+// The linear scan the parser used before the line index.
+function linearFindContext(lines: string[], context: string[], start: number): [number, number] {
+  if (!context.length) {
+    return [start, 0];
+  }
+  const equal = (a: string[], b: string[]) => a.length === b.length && a.every((v, i) => v === b[i]);
+  for (let i = start; i <= lines.length - context.length; i++) {
+    if (equal(lines.slice(i, i + context.length), context)) {
+      return [i, 0];
+    }
+  }
+  for (let i = start; i <= lines.length - context.length; i++) {
+    if (equal(
+      lines.slice(i, i + context.length).map(s => s.replace(/\s+$/, '')),
+      context.map(s => s.replace(/\s+$/, ''))
+    )) {
+      return [i, 1];
+    }
+  }
+  for (let i = start; i <= lines.length - context.length; i++) {
+    if (equal(
+      lines.slice(i, i + context.length).map(s => s.trim()),
+      context.map(s => s.trim())
+    )) {
+      return [i, 100];
+    }
+  }
+  return [-1, 0];
+}
+
+function generateFile(count: number): string[] {
+  // Log-like lines with plenty of repetition, as in generated files.
+  const lines: string[] = [];
+  for (let i = 0; i < count; i++) {
+    if (i % 50 === 0) {
+      lines.push(`section ${i / 50} {`);
+    } else if (i % 50 === 49) {
+      lines.push('}');
+    } else {
+      lines.push(`    entry ${i % 7}: value ${i}`);
+    }
+  }
+  return lines;
+}
+
+function time<T>(fn: () => T): [T, number] {
+  const started = performance.now();
+  const result = fn();
+  return [result, performance.now() - started];
+}
+
+function report(name: string, before: number, after: number): void {
+  const speedup = after > 0 ? `${(before / after).toFixed(1)}x` : 'n/a';
+  console.log(`${name.padEnd(36)} ${before.toFixed(1).padStart(9)} ms ${after.toFixed(1).padStart(9)} ms ${speedup.padStart(8)}`);
+}
+
+const lines = generateFile(LINES);
+const targets = Array.from({ length: 20 }, (_, k) => Math.floor(((k + 1) * LINES) / 21));
+const exact = targets.map(t => lines.slice(t, t + 5));
+// Context quoted with different indentation only matches at the trimmed tier.
+const trimmed = exact.map(context => context.map(line => line.trimStart()));
+
+console.log(`Context search on a ${LINES}-line file (${targets.length} hunks per case)\n`);
+console.log(`${'case'.padEnd(36)} ${'linear'.padStart(12)} ${'indexed'.padStart(12)} ${'speedup'.padStart(8)}`);
+
+for (const [name, contexts] of [['exact context', exact], ['indentation-only match', trimmed]] as const) {
+  const [expected, before] = time(() => contexts.map(context => linearFindContext(lines, context, 0)));
+  // The parser builds one index per file and reuses it for every hunk.
+  const [actual, after] = time(() => {
+    const index = new LineIndex(lines);
+    return contexts.map(context => findContext(index, context, 0, false));
+  });
+  if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+    throw new Error(`Results differ for ${name}`);
+  }
+  report(name, before, after);
+}
+
+const text = lines.join('\n');
+const patchText = [
+  '*** Begin Patch',
+  '*** Update File: big.log',
+  ...targets.flatMap(t => [
+    `@@ ${lines[t - (t % 50)]}`,
+    ` ${lines[t]}`,
+    `-${lines[t + 1]}`,
+    `+${lines[t + 1]} (edited)`,
+    ` ${lines[t + 2]}`,
+  ]),
+  '*** End Patch',
+].join('\n');
+const [parsed, parseTime] = time(() => parsePatch(patchText, { 'big.log': text }));
+console.log(`\nparsePatch, ${targets.length} anchored hunks: ${parseTime.toFixed(1)} ms (fuzz ${parsed.fuzz})`);
+
+const updated = [...lines];
+targets.forEach(t => (updated[t + 1] += ' (edited)'));
+const [, createTime] = time(() => createPatch({ 'big.log': text }, { 'big.log': updated.join('\n') }));
+console.log(`createPatch, ${targets.length} changes: ${createTime.toFixed(1)} ms`);
@@ -1,6 +1,10 @@
 #!/usr/bin/env bun
-import { existsSync, readFileSync, writeFileSync, renameSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname } from 'path';
+import { ActionType, type FileChange } from '../../lib/apply-patch';
+import { formatDiffstat, summarizeCommit } from '../../lib/diffstat';
 import { partialEdit } from '../../lib/partial-edit';
+import { applyCommitToDir } from '../../lib/workspace';
 
 /**
  * CLI tool for partial editing of files using LLM
@@ -44,21 +48,29 @@ async function main() {
     // Generate patch and apply changes
     const { patch, finalContent } = await partialEdit(originalContent, task);
     
-    // Backup original file
+    // Backup, updated file and patch are written together: if any write
+    // fails, none of them is left behind.
+    const name = basename(filePath);
     const backupPath = `${filePath}.old`;
+    const patchPath = `${filePath}.patch`;
     console.log(`💾 Backing up original to: ${backupPath}`);
-    renameSync(filePath, backupPath);
-    
-    // Write the new content to the original file
     console.log(`📄 Writing updated content to: ${filePath}`);
-    writeFileSync(filePath, finalContent, 'utf-8');
-    
-    // Write the patch to a .patch file
-    const patchPath = `${filePath}.patch`;
     console.log(`🔍 Writing patch to: ${patchPath}`);
-    writeFileSync(patchPath, patch, 'utf-8');
+    const update: FileChange = {
+      type: ActionType.UPDATE,
+      oldContent: originalContent,
+      newContent: finalContent,
+    };
+    applyCommitToDir(dirname(filePath), {
+      changes: {
+        [`${name}.old`]: { type: ActionType.ADD, newContent: originalContent },
+        [name]: update,
+        [`${name}.patch`]: { type: ActionType.ADD, newContent: patch },
+      },
+    });
     
     console.log('✅ Done!');
+    process.stdout.write(formatDiffstat(summarizeCommit({ changes: { [filePath]: update } })));
     
   } catch (error) {
     console.error('❌ Error:', error instanceof Error ? error.message : String(error));
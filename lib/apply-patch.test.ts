@@ -2,10 +2,19 @@ import { describe, test, expect } from "bun:test";
 import {
   ActionType,
   DiffError,
+  DiffErrorCode,
+  AmbiguousContextError,
+  MatchTier,
+  RepairKind,
+  parsePatch,
+  checkPatch,
   textToPatch,
   patchToCommit,
   applyCommit,
+  applyCommitToFiles,
+  invertCommit,
   processPatch,
+  processPatchPartial,
   identifyFilesNeeded,
   identifyFilesAdded,
 } from "./apply-patch";
@@ -312,4 +321,892 @@ function section${i + 1}() {
 }`);
     });
   });
-}); 
\ No newline at end of file
+
+  describe("invertCommit", () => {
+    test("swaps adds, deletes, updates and moves", () => {
+      const commit = {
+        changes: {
+          "a.ts": { type: ActionType.ADD, newContent: "a" },
+          "b.ts": { type: ActionType.DELETE, oldContent: "b" },
+          "c.ts": {
+            type: ActionType.UPDATE,
+            oldContent: "old",
+            newContent: "new",
+            movePath: "d.ts",
+          },
+        },
+      };
+
+      expect(invertCommit(commit)).toEqual({
+        changes: {
+          "a.ts": { type: ActionType.DELETE, oldContent: "a" },
+          "b.ts": { type: ActionType.ADD, newContent: "b" },
+          "d.ts": {
+            type: ActionType.UPDATE,
+            oldContent: "new",
+            newContent: "old",
+            movePath: "c.ts",
+          },
+        },
+      });
+    });
+
+    test("restores a file that a move replaced", () => {
+      const files = { "a.ts": "a", "b.ts": "b" };
+      const commit = {
+        changes: {
+          "a.ts": { type: ActionType.DELETE, oldContent: "a" },
+          "b.ts": {
+            type: ActionType.UPDATE,
+            oldContent: "b",
+            newContent: "b2",
+            movePath: "a.ts",
+          },
+        },
+      };
+      const inverse = invertCommit(commit);
+
+      expect(inverse.changes).toEqual({
+        "a.ts": { type: ActionType.UPDATE, oldContent: "b2", newContent: "a" },
+        "b.ts": { type: ActionType.ADD, newContent: "b" },
+      });
+      expect(applyCommitToFiles(applyCommitToFiles(files, commit), inverse)).toEqual(files);
+    });
+
+    test("throws when the inverse would touch a file twice", () => {
+      const commit = {
+        changes: {
+          "a.ts": { type: ActionType.ADD, newContent: "a" },
+          "b.ts": {
+            type: ActionType.UPDATE,
+            oldContent: "b",
+            newContent: "b",
+            movePath: "a.ts",
+          },
+        },
+      };
+
+      expect(() => invertCommit(commit)).toThrow(DiffError);
+    });
+  });
+
+  describe("DiffError diagnostics", () => {
+    const orig: Record<string, string> = {
+      "src/file.ts": `export function something() {
+  return "something";
+}`,
+    };
+
+    function catchError(patchText: string): DiffError {
+      try {
+        processPatch(patchText, orig);
+      } catch (error) {
+        if (error instanceof DiffError) {
+          return error;
+        }
+        throw error;
+      }
+      throw new Error("expected a DiffError");
+    }
+
+    test("reports invalid context with the closest candidate", () => {
+      const error = catchError(`*** Begin Patch
+*** Update File: src/file.ts
+ export function somethingElse() {
+-  return "something";
++  return "else";
+ }
+*** End Patch`);
+
+      expect(error.code).toBe(DiffErrorCode.INVALID_CONTEXT);
+      expect(error.line).toBe(3);
+      expect(error.path).toBe("src/file.ts");
+      expect(error.context).toEqual([
+        "export function somethingElse() {",
+        '  return "something";',
+        "}",
+      ]);
+      expect(error.candidate?.line).toBe(1);
+      expect(error.candidate?.similarity).toBeCloseTo(2 / 3);
+    });
+
+    test("reports missing files and duplicate actions", () => {
+      const missing = catchError(`*** Begin Patch
+*** Delete File: src/missing.ts
+*** End Patch`);
+      expect(missing.code).toBe(DiffErrorCode.MISSING_FILE);
+      expect(missing.line).toBe(2);
+      expect(missing.path).toBe("src/missing.ts");
+
+      const duplicate = catchError(`*** Begin Patch
+*** Delete File: src/file.ts
+*** Delete File: src/file.ts
+*** End Patch`);
+      expect(duplicate.code).toBe(DiffErrorCode.DUPLICATE_ACTION);
+      expect(duplicate.line).toBe(3);
+    });
+
+    test("reports bad line prefixes with their location", () => {
+      const error = catchError(`*** Begin Patch
+*** Update File: src/file.ts
+ export function something() {
+?  return "something";
+*** End Patch`);
+
+      expect(error.code).toBe(DiffErrorCode.INVALID_LINE);
+      expect(error.line).toBe(4);
+      expect(error.path).toBe("src/file.ts");
+    });
+
+    test("reports missing sentinels", () => {
+      expect(catchError(`*** Begin Patch
+*** Delete File: src/file.ts`).code).toBe(DiffErrorCode.MISSING_SENTINEL);
+    });
+  });
+
+  describe("parsePatch match report", () => {
+    const orig: Record<string, string> = {
+      "src/file.ts": `function a() {
+  return 1;
+}
+
+function b() {
+  return 2;
+}`,
+    };
+
+    test("reports tier, range and anchor per hunk", () => {
+      const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+@@ function a() {
+-  return 1;
++  return 10;
+@@
+ function b() {
+-return 2;
++  return 20;
+ }
+*** End Patch`;
+
+      const { fuzz, hunks } = parsePatch(patchText, orig);
+
+      expect(fuzz).toBe(100);
+      expect(hunks).toEqual([
+        {
+          path: "src/file.ts",
+          line: 4,
+          tier: MatchTier.EXACT,
+          eofFallback: false,
+          fuzz: 0,
+          start: 1,
+          end: 2,
+          anchors: [{ text: "function a() {", found: true, fuzz: 0 }],
+        },
+        {
+          path: "src/file.ts",
+          line: 7,
+          tier: MatchTier.TRIMMED,
+          eofFallback: false,
+          fuzz: 100,
+          start: 4,
+          end: 7,
+          anchors: [],
+          indent: { shift: 2, tabs: false },
+        },
+      ]);
+    });
+
+    test("flags end-of-file hunks matched elsewhere", () => {
+      const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+ function a() {
+-  return 1;
++  return 10;
+*** End of File
+*** End Patch`;
+
+      const { hunks } = parsePatch(patchText, orig);
+      expect(hunks[0]!.eofFallback).toBe(true);
+      expect(hunks[0]!.tier).toBe(MatchTier.EXACT);
+    });
+
+    test("strict mode rejects loose matches", () => {
+      const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+   function b() {
+-  return 2;
++  return 20;
+*** End Patch`;
+
+      expect(processPatch(patchText, orig)["src/file.ts"]).toContain("return 20;");
+      expect(() => processPatch(patchText, orig, { strict: true })).toThrow(
+        expect.objectContaining({ code: DiffErrorCode.FUZZ_EXCEEDED, line: 3 })
+      );
+      expect(() => processPatch(patchText, orig, { maxFuzz: 99 })).toThrow(DiffError);
+      expect(() => processPatch(patchText, orig, { maxFuzz: 100 })).not.toThrow();
+    });
+
+    test("counts fuzz only for hunks that are kept", () => {
+      const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+@@ function a() {
+-  return 1;
++  return 10;
+@@
+   function b() {
+-  return 2;
++  return 20;
+*** End Patch`;
+
+      for (const options of [{ strict: true }, { maxFuzz: 99 }]) {
+        const { fuzz, hunks, rejects } = parsePatch(patchText, orig, { ...options, collectErrors: true });
+        expect(fuzz).toBe(0);
+        expect(hunks).toHaveLength(1);
+        expect(rejects).toHaveLength(1);
+      }
+    });
+  });
+
+  describe("checkPatch", () => {
+    const orig: Record<string, string> = {
+      "src/a.ts": "one\ntwo\nthree\nfour\nfive",
+      "src/b.ts": "alpha\nbeta\ngamma",
+    };
+
+    test("accepts a clean patch", () => {
+      const result = checkPatch(`*** Begin Patch
+*** Update File: src/a.ts
+ one
+-two
++TWO
+*** End Patch`, orig);
+
+      expect(result.ok).toBe(true);
+      expect(result.errors).toEqual([]);
+      expect(result.hunks).toHaveLength(1);
+    });
+
+    test("collects every problem across files and hunks", () => {
+      const result = checkPatch(`*** Begin Patch
+*** Update File: src/a.ts
+ one
+-two
++TWO
+@@
+ nope
+-three
++THREE
+@@
+ four
+-five
++FIVE
+*** Update File: src/missing.ts
+ whatever
+*** Update File: src/b.ts
+ alpha
+?beta
+*** Add File: src/b.ts
++again
+*** End Patch`, orig);
+
+      expect(result.ok).toBe(false);
+      expect(result.errors.map(error => [error.code, error.line])).toEqual([
+        [DiffErrorCode.INVALID_CONTEXT, 7],
+        [DiffErrorCode.MISSING_FILE, 14],
+        [DiffErrorCode.INVALID_LINE, 18],
+        [DiffErrorCode.DUPLICATE_ACTION, 19],
+      ]);
+      expect(result.hunks.map(hunk => [hunk.path, hunk.line])).toEqual([
+        ["src/a.ts", 3],
+        ["src/a.ts", 11],
+      ]);
+    });
+
+    test("reports missing sentinels without throwing", () => {
+      const result = checkPatch(`*** Update File: src/a.ts
+ one
+-two
++TWO`, orig);
+
+      expect(result.errors.map(error => error.code)).toContain(
+        DiffErrorCode.MISSING_SENTINEL
+      );
+    });
+  });
+
+  describe("processPatchPartial", () => {
+    const orig: Record<string, string> = {
+      "src/a.ts": "one\ntwo\nthree\nfour\nfive",
+      "src/b.ts": "alpha\nbeta",
+    };
+
+    test("applies located hunks and rejects the rest", () => {
+      const result = processPatchPartial(`*** Begin Patch
+*** Update File: src/a.ts
+@@
+ one
+-two
++TWO
+@@
+ nope
+-four
++FOUR
+*** End of File
+@@
+ four
+-five
++FIVE
+*** Update File: src/b.ts
+ gamma
++delta
+*** Delete File: src/missing.ts
+*** End Patch`, orig);
+
+      expect(result.files).toEqual({ "src/a.ts": "one\nTWO\nthree\nfour\nFIVE" });
+      expect(result.hunks).toHaveLength(2);
+      expect(
+        result.rejects.map(reject => ({
+          path: reject.path,
+          line: reject.line,
+          text: reject.text,
+          code: reject.reason.code,
+        }))
+      ).toEqual([
+        {
+          path: "src/a.ts",
+          line: 7,
+          text: "@@\n nope\n-four\n+FOUR\n*** End of File",
+          code: DiffErrorCode.INVALID_CONTEXT,
+        },
+        {
+          path: "src/b.ts",
+          line: 17,
+          text: " gamma\n+delta",
+          code: DiffErrorCode.INVALID_CONTEXT,
+        },
+        {
+          path: "src/missing.ts",
+          line: 19,
+          text: "*** Delete File: src/missing.ts",
+          code: DiffErrorCode.MISSING_FILE,
+        },
+      ]);
+    });
+  });
+
+  describe("similarity matching", () => {
+    const orig: Record<string, string> = {
+      "src/file.ts": `function load(path) {
+  // read the configuration file
+  const text = readFile(path, "utf-8");
+  return parse(text);
+}`,
+    };
+    const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+ function load(path) {
+   // read the config file
+   const text = readFile(path, 'utf-8');
+-  return parse(text);
++  return parse(text) ?? {};
+ }
+*** End Patch`;
+
+    test("is off by default", () => {
+      expect(() => processPatch(patchText, orig)).toThrow(
+        expect.objectContaining({ code: DiffErrorCode.INVALID_CONTEXT })
+      );
+    });
+
+    test("locates misquoted context above the threshold", () => {
+      const { patch, hunks } = parsePatch(patchText, orig, { similarity: 0.8 });
+
+      expect(hunks[0]!.tier).toBe(MatchTier.SIMILAR);
+      expect(hunks[0]!.start).toBe(0);
+      expect(hunks[0]!.similarity).toBeGreaterThan(0.9);
+      expect(hunks[0]!.similarity).toBeLessThan(1);
+      expect(patchToCommit(patch, orig).changes["src/file.ts"]!.newContent).toBe(
+        orig["src/file.ts"]!.replace("return parse(text);", "return parse(text) ?? {};")
+      );
+      expect(() => processPatch(patchText, orig, { similarity: 0.99 })).toThrow(
+        expect.objectContaining({ code: DiffErrorCode.INVALID_CONTEXT })
+      );
+    });
+
+    test("refuses to choose between equally similar locations", () => {
+      const repeated = { "src/file.ts": "a = 1;\nb = 2;\na = 1;\nb = 2;" };
+      const ambiguous = `*** Begin Patch
+*** Update File: src/file.ts
+ a = 1; // one
+-b = 2;
++b = 3;
+*** End Patch`;
+
+      expect(() => processPatch(ambiguous, repeated, { similarity: 0.5 })).toThrow(
+        expect.objectContaining({ code: DiffErrorCode.AMBIGUOUS_CONTEXT })
+      );
+    });
+  });
+
+  describe("ambiguous context", () => {
+    const orig: Record<string, string> = {
+      "src/file.ts": `function a(x) {
+  if (!x) {
+    return null;
+  }
+}
+
+function b(y) {
+  if (!y) {
+    return null;
+  }
+}`,
+    };
+    const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+-    return null;
++    return undefined;
+   }
+*** End Patch`;
+
+    test("applies at the first match by default", () => {
+      expect(processPatch(patchText, orig)["src/file.ts"]).toBe(
+        orig["src/file.ts"]!.replace("return null;", "return undefined;")
+      );
+    });
+
+    test("throws listing every candidate when asked to", () => {
+      let error: unknown;
+      try {
+        processPatch(patchText, orig, { ambiguity: "error" });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(AmbiguousContextError);
+      expect((error as AmbiguousContextError).code).toBe(DiffErrorCode.AMBIGUOUS_CONTEXT);
+      expect((error as AmbiguousContextError).candidates).toEqual([3, 9]);
+    });
+
+    test("takes the @@ anchor into account", () => {
+      const anchored = patchText.replace(
+        "*** Update File: src/file.ts\n",
+        "*** Update File: src/file.ts\n@@ function b(y) {\n"
+      );
+      const result = processPatch(anchored, orig, { ambiguity: "error" });
+      expect(result["src/file.ts"]!.split("\n")[8]).toBe("    return undefined;");
+    });
+
+    test("only weighs matches inside the anchored block", () => {
+      const three = {
+        "src/file.ts": `${orig["src/file.ts"]}\n\nfunction c(z) {\n  if (!z) {\n    return null;\n  }\n}`,
+      };
+      const anchored = patchText.replace(
+        "*** Update File: src/file.ts\n",
+        "*** Update File: src/file.ts\n@@ function a(x) {\n"
+      );
+
+      const result = processPatch(anchored, three, { ambiguity: "error" });
+      expect(result["src/file.ts"]!.split("\n")[2]).toBe("    return undefined;");
+      expect(result["src/file.ts"]!.match(/return null;/g)).toHaveLength(2);
+
+      const twice = { "src/file.ts": three["src/file.ts"].replace("  }\n}", "  }\n  if (!x) {\n    return null;\n  }\n}") };
+      expect(() => processPatch(anchored, twice, { ambiguity: "error" })).toThrow(
+        /matches at lines 3, 6; add more context:/
+      );
+    });
+  });
+
+  describe("stacked @@ anchors", () => {
+    const orig: Record<string, string> = {
+      "shapes.py": `class Circle:
+    def area(self):
+        return 0
+
+class Square:
+    def area(self):
+        return 0
+
+    def side(self):
+        return 0`,
+    };
+
+    test("narrows the scope with each anchor", () => {
+      const patchText = `*** Begin Patch
+*** Update File: shapes.py
+@@ class Square:
+@@     def area(self):
+-        return 0
++        return self.size ** 2
+@@ class Square:
+@@     def side(self):
+-        return 0
++        return self.size
+*** End Patch`;
+
+      const { patch, hunks, fuzz } = parsePatch(patchText, orig);
+
+      expect(fuzz).toBe(0);
+      expect(hunks.map(hunk => hunk.anchors)).toEqual([
+        [
+          { text: "class Square:", found: true, fuzz: 0 },
+          { text: "    def area(self):", found: true, fuzz: 0 },
+        ],
+        [
+          { text: "class Square:", found: false, fuzz: 0 },
+          { text: "    def side(self):", found: true, fuzz: 0 },
+        ],
+      ]);
+      expect(patchToCommit(patch, orig).changes["shapes.py"]!.newContent).toBe(
+        orig["shapes.py"]!
+          .replace(/(class Square:\n.*\n)        return 0/, "$1        return self.size ** 2")
+          .replace(/return 0$/, "return self.size")
+      );
+    });
+
+    test("counts the fuzz of each anchor", () => {
+      const patchText = `*** Begin Patch
+*** Update File: shapes.py
+@@  class Square:
+@@ def area(self):
+-        return 0
++        return 1
+*** End Patch`;
+
+      const { hunks, fuzz } = parsePatch(patchText, orig);
+
+      expect(fuzz).toBe(2);
+      expect(hunks[0]!.fuzz).toBe(2);
+      expect(hunks[0]!.start).toBe(6);
+      expect(() => parsePatch(patchText, orig, { strict: true })).toThrow("fuzzy @@ anchor");
+    });
+
+    test("treats a whitespace-only anchor as a bare @@", () => {
+      const patchText = `*** Begin Patch
+*** Update File: shapes.py
+@@ class Circle:
+-    def area(self):
++    def area(self) -> int:
+@@  
+ class Square:
+-    def area(self):
++    def area(self) -> int:
+*** End Patch`;
+
+      const { patch } = parsePatch(patchText, orig);
+
+      expect(patchToCommit(patch, orig).changes["shapes.py"]!.newContent).toBe(
+        orig["shapes.py"]!.replaceAll("def area(self):", "def area(self) -> int:")
+      );
+    });
+
+    test("names the anchor that was not found", () => {
+      const patchText = `*** Begin Patch
+*** Update File: shapes.py
+@@ class Circle:
+@@     def perimeter(self):
+-        return 0
++        return 1
+*** End Patch`;
+
+      try {
+        parsePatch(patchText, orig);
+        throw new Error("expected a DiffError");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DiffError);
+        expect((error as DiffError).message).toStartWith(
+          "Anchor 2 of 2 not found in shapes.py: @@     def perimeter(self):"
+        );
+        expect((error as DiffError).code).toBe(DiffErrorCode.INVALID_CONTEXT);
+        expect((error as DiffError).line).toBe(4);
+      }
+    });
+  });
+
+  describe("re-indentation", () => {
+    const orig: Record<string, string> = {
+      "app.py": "class App:\n    def run(self):\n        start()\n        stop()\n",
+      "Makefile": "build:\n\tcompile\n\tlink\n",
+    };
+
+    test("shifts inserted lines by the context's indentation offset", () => {
+      const patchText = `*** Begin Patch
+*** Update File: app.py
+ def run(self):
+     start()
++    if ready():
++        wait()
+     stop()
+*** End Patch`;
+
+      const { patch, hunks } = parsePatch(patchText, orig);
+
+      expect(hunks[0]!.tier).toBe(MatchTier.TRIMMED);
+      expect(hunks[0]!.indent).toEqual({ shift: 4, tabs: false });
+      expect(patchToCommit(patch, orig).changes["app.py"]!.newContent).toBe(
+        "class App:\n    def run(self):\n        start()\n" +
+          "        if ready():\n            wait()\n        stop()\n"
+      );
+    });
+
+    test("indents with tabs where the file does", () => {
+      const patchText = `*** Begin Patch
+*** Update File: Makefile
+     compile
++    strip
+     link
+*** End Patch`;
+
+      const { patch, hunks } = parsePatch(patchText, orig, { tabWidth: 4 });
+
+      expect(hunks[0]!.indent).toEqual({ shift: 0, tabs: true });
+      expect(patchToCommit(patch, orig).changes["Makefile"]!.newContent).toBe(
+        "build:\n\tcompile\n\tstrip\n\tlink\n"
+      );
+    });
+
+    test("ignores context lines that match exactly", () => {
+      const files = { "f.py": "def f():\n    x = 1\n    return x\n" };
+      const patchText = `*** Begin Patch
+*** Update File: f.py
+ def f():
+-  x = 1
++  x = 2
+   return x
+*** End Patch`;
+
+      const { patch, hunks } = parsePatch(patchText, files);
+
+      expect(hunks[0]!.indent).toEqual({ shift: 2, tabs: false });
+      expect(patchToCommit(patch, files).changes["f.py"]!.newContent).toBe(
+        "def f():\n    x = 2\n    return x\n"
+      );
+    });
+
+    test("leaves lines alone when the offset is inconsistent or disabled", () => {
+      const patchText = `*** Begin Patch
+*** Update File: app.py
+ def run(self):
++    pause()
+       start()
+*** End Patch`;
+
+      expect(parsePatch(patchText, orig).hunks[0]!.indent).toBeUndefined();
+      const disabled = parsePatch(patchText.replace("       start()", "     start()"), orig, {
+        reindent: false,
+      });
+      expect(disabled.hunks[0]!.indent).toBeUndefined();
+      expect(disabled.patch.actions["app.py"]!.chunks[0]!.insLines).toEqual(["    pause()"]);
+    });
+  });
+
+  describe("lenient parsing", () => {
+    const orig: Record<string, string> = { "src/a.ts": "one\ntwo\nthree\n" };
+    const sloppy = `Sure! Here is the patch:
+
+\`\`\`diff
+*** Begin Patch
+*** Update File: src/a.ts
+one
+-two
++TWO
+ three
+*** End Patch  
+\`\`\`
+`;
+
+    test("rejects formatting mistakes by default", () => {
+      expect(() => parsePatch(sloppy, orig)).toThrow(DiffError);
+      const unprefixed = "*** Begin Patch\n*** Update File: src/a.ts\none\n-two\n+TWO\n*** End Patch";
+      expect(() => parsePatch(unprefixed, orig)).toThrow("Invalid Line: one");
+    });
+
+    test("repairs them and reports each repair", () => {
+      const { patch, repairs } = parsePatch(sloppy, orig, { lenient: true });
+
+      expect(patchToCommit(patch, orig).changes["src/a.ts"]!.newContent).toBe("one\nTWO\nthree\n");
+      expect(repairs).toEqual([
+        { kind: RepairKind.PROSE, line: 1, text: "Sure! Here is the patch:" },
+        { kind: RepairKind.WHITESPACE, line: 2, text: "" },
+        { kind: RepairKind.FENCE, line: 3, text: "\`\`\`diff" },
+        { kind: RepairKind.CONTEXT_PREFIX, line: 6, text: "one" },
+        { kind: RepairKind.WHITESPACE, line: 10, text: "*** End Patch  " },
+        { kind: RepairKind.FENCE, line: 11, text: "\`\`\`" },
+      ]);
+    });
+
+    test("reports no repairs for a well-formed patch", () => {
+      const clean = "*** Begin Patch\n*** Update File: src/a.ts\n one\n-two\n+TWO\n*** End Patch";
+
+      expect(parsePatch(clean, orig, { lenient: true }).repairs).toEqual([]);
+      expect(parsePatch(`${clean}\n`, orig, { lenient: true }).repairs).toEqual([]);
+      expect(parsePatch(`${clean}\n\n`, orig, { lenient: true }).repairs).toEqual([]);
+      expect(checkPatch(sloppy, orig, { lenient: true }).ok).toBe(true);
+    });
+
+    test("applies through processPatch", () => {
+      expect(() => processPatch(sloppy, orig)).toThrow("Patch text must start with *** Begin Patch");
+      expect(processPatch(sloppy, orig, { lenient: true })).toEqual({ "src/a.ts": "one\nTWO\nthree\n" });
+    });
+
+    test("leaves added files alone", () => {
+      const patchText = "*** Begin Patch\n*** Add File: b.txt\nno plus\n*** End Patch";
+
+      expect(() => parsePatch(patchText, orig, { lenient: true })).toThrow("missing '+'");
+    });
+  });
+
+  describe("line endings", () => {
+    const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+ one
+-two
++TWO
++two and a half
+ three
+*** End Patch`;
+
+    test("keeps CRLF line endings", () => {
+      const orig = { "src/file.ts": "one\r\ntwo\r\nthree\r\n" };
+      expect(processPatch(patchText, orig)["src/file.ts"]).toBe(
+        "one\r\nTWO\r\ntwo and a half\r\nthree\r\n"
+      );
+    });
+
+    test("keeps mixed line endings and a UTF-8 BOM", () => {
+      const orig = { "src/file.ts": "\uFEFFone\r\ntwo\nthree\r\nfour" };
+      expect(processPatch(patchText, orig)["src/file.ts"]).toBe(
+        "\uFEFFone\r\nTWO\r\ntwo and a half\r\nthree\r\nfour"
+      );
+    });
+
+    test("applies a CRLF patch to an LF file", () => {
+      const orig = { "src/file.ts": "one\ntwo\nthree" };
+      expect(processPatch(patchText.replace(/\n/g, "\r\n"), orig)["src/file.ts"]).toBe(
+        "one\nTWO\ntwo and a half\nthree"
+      );
+    });
+
+    test("anchors End of File hunks before the trailing newline", () => {
+      const orig = { "src/file.ts": "one\ntwo\none\n" };
+      const { patch, fuzz } = parsePatch(`*** Begin Patch
+*** Update File: src/file.ts
+ one
++three
+*** End of File
+*** End Patch`, orig);
+
+      expect(fuzz).toBe(0);
+      expect(patchToCommit(patch, orig).changes["src/file.ts"]!.newContent).toBe(
+        "one\ntwo\none\nthree\n"
+      );
+    });
+
+    test("optionally terminates added files with a newline", () => {
+      const patchText = `*** Begin Patch
+*** Add File: src/new.ts
++hello
+*** End Patch`;
+
+      expect(processPatch(patchText, {})["src/new.ts"]).toBe("hello");
+      expect(processPatch(patchText, {}, { finalNewline: true })["src/new.ts"]).toBe(
+        "hello\n"
+      );
+    });
+  });
+
+  describe("copies, renames and modes", () => {
+    const orig: Record<string, string> = {
+      "src/util.ts": "export function a() {}\nexport function b() {}\n",
+      "scripts/run.sh": "echo hi\n",
+    };
+
+    test("copies a file and edits the copy", () => {
+      const patchText = `*** Begin Patch
+*** Copy File: src/util.ts
+*** Copy to: src/b.ts
+-export function a() {}
+ export function b() {}
+*** Update File: src/util.ts
+ export function a() {}
+-export function b() {}
+*** End Patch`;
+
+      const [patch] = textToPatch(patchText, orig);
+      expect(patch.actions["src/b.ts"]!.type).toBe(ActionType.COPY);
+      expect(patch.actions["src/b.ts"]!.copyFrom).toBe("src/util.ts");
+      expect(identifyFilesNeeded(patchText)).toEqual(["src/util.ts", "src/util.ts"]);
+      expect(identifyFilesAdded(patchText)).toEqual(["src/b.ts"]);
+
+      expect(processPatch(patchText, orig)).toEqual({
+        "src/util.ts": "export function a() {}\n",
+        "src/b.ts": "export function b() {}\n",
+      });
+    });
+
+    test("renames without hunks", () => {
+      const patchText = `*** Begin Patch
+*** Update File: src/util.ts
+*** Move to: lib/util.ts
+*** End Patch`;
+
+      expect(processPatch(patchText, orig)).toEqual({ "lib/util.ts": orig["src/util.ts"]! });
+    });
+
+    test("records file modes", () => {
+      const patchText = `*** Begin Patch
+*** Update File: scripts/run.sh
+*** Mode: 0755
+*** Add File: scripts/new.sh
+*** Mode: 755
++echo new
+*** End Patch`;
+
+      const [patch] = textToPatch(patchText, orig);
+      const commit = patchToCommit(patch, orig);
+
+      expect(commit.changes["scripts/run.sh"]).toMatchObject({
+        type: ActionType.UPDATE,
+        newContent: "echo hi\n",
+        mode: "755",
+      });
+      expect(commit.changes["scripts/new.sh"]!.mode).toBe("755");
+      expect(invertCommit(commit).changes["scripts/run.sh"]).toMatchObject({
+        mode: undefined,
+        oldMode: "755",
+      });
+    });
+
+    test("rejects invalid modes and copies onto existing files", () => {
+      const badMode = "*** Begin Patch\n*** Update File: scripts/run.sh\n*** Mode: rwx\n*** End Patch";
+      const existing = "*** Begin Patch\n*** Copy File: src/util.ts\n*** Copy to: scripts/run.sh\n*** End Patch";
+
+      expect(() => textToPatch(badMode, orig)).toThrow("Invalid file mode: rwx");
+      expect(() => textToPatch(existing, orig)).toThrow(DiffError);
+    });
+
+    test("rejects moves onto existing files the patch does not delete", () => {
+      const onto = "*** Begin Patch\n*** Update File: src/util.ts\n*** Move to: scripts/run.sh\n";
+      const { errors, rejects, patch } = parsePatch(`${onto}*** End Patch`, orig, { collectErrors: true });
+
+      expect(() => textToPatch(`${onto}*** End Patch`, orig)).toThrow(
+        "Update File Error - move target already exists: scripts/run.sh"
+      );
+      expect(errors.map(error => [error.code, error.line])).toEqual([[DiffErrorCode.FILE_EXISTS, 3]]);
+      expect(rejects.map(reject => reject.text)).toEqual(["*** Update File: src/util.ts\n*** Move to: scripts/run.sh"]);
+      expect(patch.actions).toEqual({});
+      expect(processPatch(`${onto}*** Delete File: scripts/run.sh\n*** End Patch`, orig)).toEqual({
+        "scripts/run.sh": orig["src/util.ts"]!,
+      });
+    });
+
+    test("inverts a copy into a delete", () => {
+      const patchText = "*** Begin Patch\n*** Copy File: src/util.ts\n*** Copy to: src/c.ts\n*** End Patch";
+      const [patch] = textToPatch(patchText, orig);
+
+      expect(invertCommit(patchToCommit(patch, orig)).changes).toEqual({
+        "src/c.ts": { type: ActionType.DELETE, oldContent: orig["src/util.ts"], oldMode: undefined },
+      });
+    });
+  });
+});
@@ -3,6 +3,14 @@
  * "pseudo-diff" patch files to a collection of text files.
  */
 
+import {
+  checkPatchPath,
+  normalizePatchPath,
+  type PathPolicy,
+  type PathRule,
+} from "./path-policy";
+import { LineIndex, type LineNorm } from "./line-index";
+
 // --------------------------------------------------------------------------- //
 //  Domain objects
 // --------------------------------------------------------------------------- //
@@ -10,6 +18,7 @@ export enum ActionType {
   ADD = "add",
   DELETE = "delete",
   UPDATE = "update",
+  COPY = "copy",
 }
 
 export interface FileChange {
@@ -17,6 +26,12 @@ export interface FileChange {
   oldContent?: string;
   newContent?: string;
   movePath?: string;
+  /** Source of a COPY; `oldContent` holds its content. */
+  copyFrom?: string;
+  /** Permission bits to set, as three octal digits (e.g. "755"). */
+  mode?: string;
+  /** Permission bits before the change, when known. */
+  oldMode?: string;
 }
 
 export interface Commit {
@@ -26,10 +41,74 @@ export interface Commit {
 // --------------------------------------------------------------------------- //
 //  Exceptions
 // --------------------------------------------------------------------------- //
+export enum DiffErrorCode {
+  MISSING_FILE = "missing_file",
+  FILE_EXISTS = "file_exists",
+  DUPLICATE_ACTION = "duplicate_action",
+  INVALID_CONTEXT = "invalid_context",
+  INVALID_LINE = "invalid_line",
+  MISSING_SENTINEL = "missing_sentinel",
+  EMPTY_SECTION = "empty_section",
+  INVALID_CHUNK = "invalid_chunk",
+  INVALID_CHANGE = "invalid_change",
+  FUZZ_EXCEEDED = "fuzz_exceeded",
+  AMBIGUOUS_CONTEXT = "ambiguous_context",
+  PATH_REJECTED = "path_rejected",
+}
+
+export interface ContextCandidate {
+  /** 1-based line in the target file where the closest match starts. */
+  line: number;
+  /** Fraction of context lines that match there, ignoring whitespace. */
+  similarity: number;
+}
+
+export interface DiffErrorDetails {
+  code?: DiffErrorCode;
+  /** 1-based line in the patch text. */
+  line?: number;
+  path?: string;
+  context?: string[];
+  candidate?: ContextCandidate;
+}
+
 export class DiffError extends Error {
-  constructor(message: string) {
+  public code: DiffErrorCode;
+  public line?: number;
+  public path?: string;
+  public context?: string[];
+  public candidate?: ContextCandidate;
+
+  constructor(message: string, details: DiffErrorDetails = {}) {
     super(message);
     this.name = "DiffError";
+    this.code = details.code ?? DiffErrorCode.INVALID_CHANGE;
+    this.line = details.line;
+    this.path = details.path;
+    this.context = details.context;
+    this.candidate = details.candidate;
+  }
+}
+
+export class AmbiguousContextError extends DiffError {
+  /** 1-based lines in the target file where the context matches equally well. */
+  public candidates: number[];
+
+  constructor(message: string, candidates: number[], details: DiffErrorDetails = {}) {
+    super(message, { ...details, code: DiffErrorCode.AMBIGUOUS_CONTEXT });
+    this.name = "AmbiguousContextError";
+    this.candidates = candidates;
+  }
+}
+
+export class PathPolicyError extends DiffError {
+  /** The part of the `pathPolicy` that the path broke. */
+  public rule: PathRule;
+
+  constructor(message: string, rule: PathRule, details: DiffErrorDetails = {}) {
+    super(message, { ...details, code: DiffErrorCode.PATH_REJECTED });
+    this.name = "PathPolicyError";
+    this.rule = rule;
   }
 }
 
@@ -47,34 +126,229 @@ export interface PatchAction {
   newFile?: string;
   chunks: Chunk[];
   movePath?: string;
+  /** For COPY actions (keyed by the target), the file copied. */
+  copyFrom?: string;
+  mode?: string;
 }
 
 export interface Patch {
   actions: Record<string, PatchAction>;
 }
 
+export enum MatchTier {
+  EXACT = "exact",
+  TRAILING_WHITESPACE = "trailing_whitespace",
+  TRIMMED = "trimmed",
+  SIMILAR = "similar",
+}
+
+export interface AnchorMatch {
+  text: string;
+  found: boolean;
+  fuzz: number;
+}
+
+export interface IndentAdjustment {
+  /** Columns added to (negative: removed from) the inserted lines. */
+  shift: number;
+  /** Whether the inserted lines were indented with tabs, like the file. */
+  tabs: boolean;
+}
+
+export interface HunkMatch {
+  path: string;
+  /** 1-based line in the patch text where the hunk body starts. */
+  line: number;
+  tier: MatchTier;
+  /** Set when an `*** End of File` hunk had to be matched away from the end. */
+  eofFallback: boolean;
+  /** Fuzz incurred by this hunk, including its `@@` anchors. */
+  fuzz: number;
+  /** Matched range [start, end) in the original file, 0-based. */
+  start: number;
+  end: number;
+  /** The hunk's `@@` anchors, outermost first. */
+  anchors: AnchorMatch[];
+  /** Average line similarity (0-1) for hunks located by the similarity tier. */
+  similarity?: number;
+  /** Set when inserted lines were re-indented to match the file. */
+  indent?: IndentAdjustment;
+}
+
+export interface ParseOptions {
+  /** Reject the patch once the accumulated fuzz exceeds this value. */
+  maxFuzz?: number;
+  /** Reject any hunk or anchor that did not match exactly. */
+  strict?: boolean;
+  /**
+   * When context does not match even ignoring whitespace, accept the location
+   * whose lines are on average at least this similar (0-1, by edit distance).
+   */
+  similarity?: number;
+  /**
+   * What to do when a hunk's context matches at more than one location after
+   * its `@@` anchor: apply at the first ("first", the default) or throw an
+   * `AmbiguousContextError` asking for more context ("error").
+   */
+  ambiguity?: "first" | "error";
+  /**
+   * When a hunk's context only matches ignoring indentation, shift its
+   * inserted lines by the same offset as the context (default true).
+   */
+  reindent?: boolean;
+  /** Columns a tab stands for when comparing indentation (default 4). */
+  tabWidth?: number;
+  /** Terminate added files with a newline if the patch did not (default false). */
+  finalNewline?: boolean;
+  /**
+   * Restrict the paths the patch may name; violations throw a
+   * `PathPolicyError`.
+   */
+  pathPolicy?: PathPolicy;
+  /**
+   * Record errors on the parser and skip to the next hunk or file instead of
+   * throwing at the first one.
+   */
+  collectErrors?: boolean;
+  /**
+   * Accept common formatting mistakes: markdown fences, prose or whitespace
+   * around the patch and context lines missing their leading space. Each
+   * correction is reported in `repairs`.
+   */
+  lenient?: boolean;
+}
+
+export enum RepairKind {
+  /** A markdown code fence around the patch was ignored. */
+  FENCE = "fence",
+  /** Text before `*** Begin Patch` or after `*** End Patch` was ignored. */
+  PROSE = "prose",
+  /** Whitespace around a sentinel, or blank lines before the patch, was ignored. */
+  WHITESPACE = "whitespace",
+  /** A context line without its leading space was read as context. */
+  CONTEXT_PREFIX = "context_prefix",
+}
+
+export interface Repair {
+  kind: RepairKind;
+  /** 1-based line in the patch text. */
+  line: number;
+  /** The line as it appeared. */
+  text: string;
+}
+
+export interface ParseResult {
+  patch: Patch;
+  fuzz: number;
+  hunks: HunkMatch[];
+  /** Problems recorded instead of thrown when `collectErrors` is set. */
+  errors: DiffError[];
+  /** Hunks and file sections skipped because of those problems. */
+  rejects: Reject[];
+  /** Formatting mistakes corrected in `lenient` mode. */
+  repairs: Repair[];
+}
+
+export interface Reject {
+  path?: string;
+  /** 1-based line in the patch text where the rejected text starts. */
+  line: number;
+  /** The rejected hunk (or whole file section) exactly as it appeared. */
+  text: string;
+  reason: DiffError;
+}
+
+export interface PartialResult {
+  files: Record<string, string>;
+  rejects: Reject[];
+  hunks: HunkMatch[];
+}
+
+export interface CheckResult {
+  ok: boolean;
+  errors: DiffError[];
+  /** Hunks that located successfully and would apply cleanly. */
+  hunks: HunkMatch[];
+  fuzz: number;
+}
+
 // --------------------------------------------------------------------------- //
 //  Patch text parser
 // --------------------------------------------------------------------------- //
+const SECTION_END = [
+  "*** End Patch",
+  "*** Update File:",
+  "*** Delete File:",
+  "*** Add File:",
+  "*** Copy File:",
+];
+
+interface OpenSection {
+  path: string;
+  lines: LineIndex;
+  /** File position the next hunk is searched from. */
+  index: number;
+  action: PatchAction;
+}
+
+interface Recovery {
+  stopAt: string[];
+  start?: number;
+  error: DiffError;
+}
+
 export class Parser {
   private currentFiles: Record<string, string>;
   private lines: string[];
   private index: number;
+  private options: ParseOptions;
+  /** Normalized spelling → spelling used, for the path policy. */
+  private knownPaths: Map<string, string>;
+  /** The update or copy section whose hunks are being read. */
+  private section?: OpenSection;
+  /** A collect-mode skip that reached the end of the lines parsed so far. */
+  private recovery?: Recovery;
+  /** Lines from here on are left for a later `parseUpTo` or `finish`. */
+  private limit = Infinity;
+  /** Whether lenient repair is inside an update or copy section. */
+  private repairInHunks = false;
+  /** Moves onto other paths, with the line of their section header. */
+  private moves: [string, number][] = [];
   public patch: Patch;
   public fuzz: number;
+  public hunks: HunkMatch[];
+  public errors: DiffError[];
+  public rejects: Reject[];
+  public repairs: Repair[];
 
-  constructor(currentFiles: Record<string, string>, lines: string[], index = 0) {
+  constructor(
+    currentFiles: Record<string, string>,
+    lines: string[],
+    index = 0,
+    options: ParseOptions = {}
+  ) {
     this.currentFiles = currentFiles;
     this.lines = lines;
     this.index = index;
+    this.options = options;
+    this.knownPaths = new Map(
+      Object.keys(currentFiles).map(path => [normalizePatchPath(path), path])
+    );
     this.patch = { actions: {} };
     this.fuzz = 0;
+    this.hunks = [];
+    this.errors = [];
+    this.rejects = [];
+    this.repairs = [];
   }
 
   // ------------- low-level helpers -------------------------------------- //
   private _curLine(): string {
     if (this.index >= this.lines.length) {
-      throw new DiffError("Unexpected end of input while parsing patch");
+      throw new DiffError("Unexpected end of input while parsing patch", {
+        code: DiffErrorCode.MISSING_SENTINEL,
+        line: this.index + 1,
+      });
     }
     return this.lines[this.index]!;
   }
@@ -115,7 +389,7 @@ export class Parser {
       throw new Error("readStr() requires a non-empty prefix");
     }
     if (Parser._norm(this._curLine()).startsWith(prefix)) {
-      const text = this._curLine().substring(prefix.length);
+      const text = Parser._norm(this._curLine()).substring(prefix.length);
       this.index += 1;
       return text;
     }
@@ -133,135 +407,623 @@ export class Parser {
 
   // ------------- public entry point -------------------------------------- //
   public parse(): void {
-    while (!this.isDone(["*** End Patch"])) {
-      // ---------- UPDATE ---------- //
-      const path = this.readStr("*** Update File: ");
-      if (path) {
-        if (path in this.patch.actions) {
-          throw new DiffError(`Duplicate update for file: ${path}`);
-        }
-        const moveTo = this.readStr("*** Move to: ");
-        if (!(path in this.currentFiles)) {
-          throw new DiffError(`Update File Error - missing file: ${path}`);
-        }
-        const text = this.currentFiles[path]!;
-        const action = this._parseUpdateFile(text);
-        action.movePath = moveTo || undefined;
-        this.patch.actions[path] = action;
+    if (this.options.lenient) {
+      // Work on a copy: the caller's lines stay as they were written.
+      this.lines = [...this.lines];
+      this._repairContextLines(this.index);
+    }
+    this.finish();
+  }
+
+  public addLine(line: string): void {
+    /**
+     * Append a line that arrived after the parser was created, e.g. from a
+     * stream; `parseUpTo` then reads it.
+     */
+    this.lines.push(line);
+    if (this.options.lenient) {
+      this._repairContextLines(this.lines.length - 1);
+    }
+  }
+
+  public parseUpTo(end: number): void {
+    /**
+     * Parse the hunks and sections that end before line *end* and stop there;
+     * the next call resumes where this one stopped, so input that arrives in
+     * pieces is read once. Line *end* must be the line that closes them, or
+     * one past the `*** End of File` line that does.
+     */
+    const line = this.lines[end];
+    this.limit = end;
+    this._parseSections(
+      line !== undefined && SECTION_END.some(prefix => Parser._norm(line).startsWith(prefix))
+    );
+  }
+
+  public finish(): void {
+    /**
+     * Parse the remaining lines and consume `*** End Patch`.
+     */
+    this.limit = Infinity;
+    this._parseSections(true);
+    this._checkMoveTargets();
+
+    try {
+      if (!this.startsWith("*** End Patch")) {
+        throw new DiffError("Missing *** End Patch sentinel", {
+          code: DiffErrorCode.MISSING_SENTINEL,
+          line: this.index + 1,
+        });
+      }
+      this.index += 1; // consume sentinel
+    } catch (error) {
+      this._recover(error, []);
+    }
+  }
+
+  private _checkMoveTargets(): void {
+    /**
+     * Reject moves onto files that exist, unless the patch deletes them; the
+     * target is only known to be free once every section has been read.
+     */
+    for (const [path, line] of this.moves) {
+      const target = this.patch.actions[path]?.movePath;
+      if (
+        target === undefined ||
+        !(target in this.currentFiles) ||
+        this.patch.actions[target]?.type === ActionType.DELETE
+      ) {
         continue;
       }
+      const error = new DiffError(`Update File Error - move target already exists: ${target}`, {
+        code: DiffErrorCode.FILE_EXISTS,
+        line: line + 1,
+        path: target,
+      });
+      if (!this.options.collectErrors) {
+        throw error;
+      }
+      // The whole section is rejected, as for other section errors.
+      let end = line;
+      while (
+        end < this.lines.length &&
+        !SECTION_END.some(prefix => Parser._norm(this.lines[end]!).startsWith(prefix))
+      ) {
+        end += 1;
+      }
+      delete this.patch.actions[path];
+      this.errors.push(error);
+      this.rejects.push({ path, line, text: this.lines.slice(line - 1, end).join("\n"), reason: error });
+    }
+  }
 
-      // ---------- DELETE ---------- //
-      const deletePath = this.readStr("*** Delete File: ");
-      if (deletePath) {
-        if (deletePath in this.patch.actions) {
-          throw new DiffError(`Duplicate delete for file: ${deletePath}`);
-        }
-        if (!(deletePath in this.currentFiles)) {
-          throw new DiffError(`Delete File Error - missing file: ${deletePath}`);
-        }
-        this.patch.actions[deletePath] = {
-          type: ActionType.DELETE,
-          chunks: [],
-        };
+  private _parseSections(closesSection: boolean): void {
+    /**
+     * Parse file sections from the current line up to `limit`. Unless the
+     * line at `limit` starts a new section, the last section may still grow.
+     */
+    if (this.recovery) {
+      this._skip();
+    }
+    while (this.index < this.limit && !this.isDone(["*** End Patch"])) {
+      if (this.section) {
+        this._parseSectionHunk();
         continue;
       }
+      // Adds and deletes run up to the next section, so until it arrives
+      // only update and copy headers can be read.
+      if (!closesSection && !this.startsWith(["*** Update File:", "*** Copy File:"])) {
+        return;
+      }
+      const start = this.index;
+      try {
+        this._parseFileSection();
+      } catch (error) {
+        this._recover(error, SECTION_END, start);
+      }
+    }
+    if (closesSection) {
+      this.section = undefined;
+    }
+  }
 
-      // ---------- ADD ---------- //
-      const addPath = this.readStr("*** Add File: ");
-      if (addPath) {
-        if (addPath in this.patch.actions) {
-          throw new DiffError(`Duplicate add for file: ${addPath}`);
-        }
-        if (addPath in this.currentFiles) {
-          throw new DiffError(`Add File Error - file already exists: ${addPath}`);
+  private _repairContextLines(from: number): void {
+    /**
+     * Give context lines that lost their leading space one back, so that the
+     * hunks of update and copy sections can be read.
+     */
+    for (let i = from; i < this.lines.length; i++) {
+      const text = Parser._norm(this.lines[i]!);
+      if (text.startsWith("*** End Patch")) {
+        break;
+      }
+      if (text.startsWith("***")) {
+        if (text.startsWith("*** Add File:") || text.startsWith("*** Delete File:")) {
+          this.repairInHunks = false;
+        } else if (text.startsWith("*** Update File:") || text.startsWith("*** Copy File:")) {
+          this.repairInHunks = true;
         }
-        this.patch.actions[addPath] = this._parseAddFile();
         continue;
       }
+      if (this.repairInHunks && text.trim() && !/^[ +\-]/.test(text) && !text.startsWith("@@")) {
+        this.repairs.push({ kind: RepairKind.CONTEXT_PREFIX, line: i + 1, text });
+        this.lines[i] = ` ${this.lines[i]}`;
+      }
+    }
+  }
 
-      throw new DiffError(`Unknown line while parsing: ${this._curLine()}`);
+  private _recover(error: unknown, stopAt: string[], start?: number): void {
+    /**
+     * In collect mode, record *error* and skip ahead to the next line starting
+     * with one of *stopAt*; otherwise rethrow it. Lines skipped from *start*
+     * on are kept as a reject.
+     */
+    if (!this.options.collectErrors || !(error instanceof DiffError)) {
+      throw error;
     }
+    this.errors.push(error);
+    this.recovery = { stopAt, start, error };
+    this._skip();
+  }
 
-    if (!this.startsWith("*** End Patch")) {
-      throw new DiffError("Missing *** End Patch sentinel");
+  private _skip(): void {
+    /**
+     * Continue the pending recovery; lines past `limit` are skipped once a
+     * later call makes them available.
+     */
+    const { stopAt, start, error } = this.recovery!;
+    while (!this.isDone(stopAt)) {
+      if (this.index >= this.limit) {
+        return;
+      }
+      this.index += 1;
+    }
+    this.recovery = undefined;
+    if (start !== undefined && this.index > start) {
+      this.rejects.push({
+        path: error.path,
+        line: start + 1,
+        text: this.lines.slice(start, this.index).join("\n"),
+        reason: error,
+      });
     }
-    this.index += 1; // consume sentinel
   }
 
   // ------------- section parsers ---------------------------------------- //
-  private _parseUpdateFile(text: string): PatchAction {
-    const action: PatchAction = { type: ActionType.UPDATE, chunks: [] };
-    const lines = text.split("\n");
-    let index = 0;
+  private _parseFileSection(): void {
+    const line = this.index + 1;
 
-    while (
-      !this.isDone([
-        "*** End Patch",
-        "*** Update File:",
-        "*** Delete File:",
-        "*** Add File:",
-        "*** End of File",
-      ])
-    ) {
-      const defStr = this.readStr("@@ ");
-      let sectionStr = "";
-      if (!defStr && Parser._norm(this._curLine()) === "@@") {
-        sectionStr = this.readLine();
+    // ---------- UPDATE ---------- //
+    const path = this.readStr("*** Update File: ");
+    if (path) {
+      this._checkPath(path, line);
+      if (path in this.patch.actions) {
+        throw new DiffError(`Duplicate update for file: ${path}`, {
+          code: DiffErrorCode.DUPLICATE_ACTION,
+          line,
+          path,
+        });
+      }
+      const moveTo = this.readStr("*** Move to: ");
+      if (moveTo) {
+        this._checkPath(moveTo, line + 1);
+      }
+      const mode = this._readMode(path);
+      if (!(path in this.currentFiles)) {
+        throw new DiffError(`Update File Error - missing file: ${path}`, {
+          code: DiffErrorCode.MISSING_FILE,
+          line,
+          path,
+        });
+      }
+      if (moveTo && moveTo !== path) {
+        this.moves.push([path, line]);
+      }
+      this._openSection(this.currentFiles[path]!, path, {
+        type: ActionType.UPDATE,
+        chunks: [],
+        movePath: moveTo || undefined,
+        mode,
+      });
+      return;
+    }
+
+    // ---------- DELETE ---------- //
+    const deletePath = this.readStr("*** Delete File: ");
+    if (deletePath) {
+      this._checkPath(deletePath, line);
+      if (deletePath in this.patch.actions) {
+        throw new DiffError(`Duplicate delete for file: ${deletePath}`, {
+          code: DiffErrorCode.DUPLICATE_ACTION,
+          line,
+          path: deletePath,
+        });
+      }
+      if (!(deletePath in this.currentFiles)) {
+        throw new DiffError(`Delete File Error - missing file: ${deletePath}`, {
+          code: DiffErrorCode.MISSING_FILE,
+          line,
+          path: deletePath,
+        });
       }
+      this.patch.actions[deletePath] = {
+        type: ActionType.DELETE,
+        chunks: [],
+      };
+      return;
+    }
 
-      if (!(defStr || sectionStr || index === 0)) {
-        throw new DiffError(`Invalid line in update section:\n${this._curLine()}`);
+    // ---------- ADD ---------- //
+    const addPath = this.readStr("*** Add File: ");
+    if (addPath) {
+      this._checkPath(addPath, line);
+      if (addPath in this.patch.actions) {
+        throw new DiffError(`Duplicate add for file: ${addPath}`, {
+          code: DiffErrorCode.DUPLICATE_ACTION,
+          line,
+          path: addPath,
+        });
+      }
+      if (addPath in this.currentFiles) {
+        throw new DiffError(`Add File Error - file already exists: ${addPath}`, {
+          code: DiffErrorCode.FILE_EXISTS,
+          line,
+          path: addPath,
+        });
       }
+      const mode = this._readMode(addPath);
+      this.patch.actions[addPath] = { ...this._parseAddFile(addPath), mode };
+      return;
+    }
+
+    // ---------- COPY ---------- //
+    const copyFrom = this.readStr("*** Copy File: ");
+    if (copyFrom) {
+      this._checkPath(copyFrom, line);
+      const copyTo = this.readStr("*** Copy to: ");
+      if (!copyTo) {
+        throw new DiffError(`Copy File Error - missing *** Copy to: for ${copyFrom}`, {
+          code: DiffErrorCode.INVALID_LINE,
+          line: line + 1,
+          path: copyFrom,
+        });
+      }
+      this._checkPath(copyTo, line + 1);
+      if (copyTo in this.patch.actions) {
+        throw new DiffError(`Duplicate copy to file: ${copyTo}`, {
+          code: DiffErrorCode.DUPLICATE_ACTION,
+          line,
+          path: copyTo,
+        });
+      }
+      if (!(copyFrom in this.currentFiles)) {
+        throw new DiffError(`Copy File Error - missing file: ${copyFrom}`, {
+          code: DiffErrorCode.MISSING_FILE,
+          line,
+          path: copyFrom,
+        });
+      }
+      if (copyTo in this.currentFiles) {
+        throw new DiffError(`Copy File Error - file already exists: ${copyTo}`, {
+          code: DiffErrorCode.FILE_EXISTS,
+          line: line + 1,
+          path: copyTo,
+        });
+      }
+      const mode = this._readMode(copyTo);
+      // Hunks, if any, edit the copy; the source is left alone.
+      this._openSection(this.currentFiles[copyFrom]!, copyTo, {
+        type: ActionType.COPY,
+        chunks: [],
+        copyFrom,
+        mode,
+      });
+      return;
+    }
+
+    throw new DiffError(`Unknown line while parsing: ${this._curLine()}`, {
+      code: DiffErrorCode.INVALID_LINE,
+      line,
+    });
+  }
+
+  private _readMode(path: string): string | undefined {
+    /**
+     * Consume an optional `*** Mode: 755` line.
+     */
+    const line = this.index + 1;
+    const text = this.readStr("*** Mode: ");
+    if (!text) {
+      return undefined;
+    }
+    const mode = normalizeFileMode(text.trim());
+    if (mode === undefined) {
+      throw new DiffError(`Invalid file mode: ${text}`, {
+        code: DiffErrorCode.INVALID_LINE,
+        line,
+        path,
+      });
+    }
+    return mode;
+  }
+
+  private _checkPath(path: string, line: number): void {
+    /**
+     * Enforce `options.pathPolicy` on a path named by the patch, including
+     * that it is not a second spelling of a path already in use.
+     */
+    const policy = this.options.pathPolicy;
+    if (!policy) {
+      return;
+    }
+    const violation = checkPatchPath(path, policy);
+    if (violation) {
+      throw new PathPolicyError(violation[1], violation[0], { line, path });
+    }
+    const normalized = normalizePatchPath(path);
+    const other = this.knownPaths.get(normalized);
+    if (other !== undefined && other !== path) {
+      throw new PathPolicyError(`Path ${path} collides with ${other}`, "duplicate", {
+        line,
+        path,
+      });
+    }
+    this.knownPaths.set(normalized, path);
+  }
+
+  private _openSection(text: string, path: string, action: PatchAction): void {
+    /**
+     * Register *action* and read the hunks that follow against *text*.
+     */
+    this.patch.actions[path] = action;
+    this.section = { path, lines: new LineIndex(splitLines(text)), index: 0, action };
+  }
 
+  private _parseSectionHunk(): void {
+    /**
+     * Parse the next hunk of the open section, or close the section at the
+     * line that ends it.
+     */
+    const section = this.section!;
+    if (this.isDone([...SECTION_END, "*** End of File"])) {
+      this.section = undefined;
+      return;
+    }
+    const start = this.index;
+    try {
+      section.index = this._parseHunk(section.lines, section.index, section.path, section.action);
+    } catch (error) {
+      // A trailing "*** End of File" belongs to the failed hunk and is
+      // skipped along with it.
+      this._recover(error, ["@@", ...SECTION_END], start);
+    }
+  }
+
+  private _parseHunk(
+    lines: LineIndex,
+    index: number,
+    path: string,
+    action: PatchAction
+  ): number {
+    /**
+     * Parse one `@@` section, append its chunks to *action* and return the
+     * file position the next section is searched from.
+     */
+    // Consecutive `@@ ` lines are stacked anchors, each narrowing the scope
+    // of the one before (`@@ class Foo` then `@@ def bar`).
+    const defLines: [string, number][] = [];
+    let sectionStr = "";
+    while (Parser._norm(this._curLine()).startsWith("@@ ")) {
+      const defStr = this.readStr("@@ ");
       if (defStr.trim()) {
-        let found = false;
-        if (!lines.slice(0, index).includes(defStr)) {
-          for (let i = index; i < lines.length; i++) {
-            if (lines[i] === defStr) {
-              index = i + 1;
-              found = true;
-              break;
-            }
-          }
-        }
-        if (!found && !lines.slice(0, index).map(s => s.trim()).includes(defStr.trim())) {
-          for (let i = index; i < lines.length; i++) {
-            if (lines[i]!.trim() === defStr.trim()) {
-              index = i + 1;
-              this.fuzz += 1;
-              found = true;
-              break;
-            }
-          }
+        defLines.push([defStr, this.index]);
+      } else {
+        // `@@` with trailing whitespace is a bare `@@`.
+        sectionStr = "@@";
+      }
+    }
+    if (!defLines.length && Parser._norm(this._curLine()) === "@@") {
+      sectionStr = this.readLine();
+    }
+
+    if (!(defLines.length || sectionStr || index === 0)) {
+      throw new DiffError(`Invalid line in update section:\n${this._curLine()}`, {
+        code: DiffErrorCode.INVALID_LINE,
+        line: this.index + 1,
+        path,
+      });
+    }
+
+    let anchors: AnchorMatch[];
+    [index, anchors] = this._findAnchors(lines, defLines, index, path);
+
+    let section: ReturnType<typeof peekNextSection>;
+    try {
+      section = peekNextSection(this.lines, this.index);
+    } catch (error) {
+      if (error instanceof DiffError) {
+        error.path ??= path;
+      }
+      throw error;
+    }
+    const [nextCtx, chunks, endIdx, eof] = section;
+    let [newIndex, fuzz] = findContext(lines, nextCtx, index, eof);
+    let similarity: number | undefined;
+
+    if (newIndex === -1 && this.options.similarity !== undefined) {
+      const match = findSimilarContext(
+        lines.lines,
+        nextCtx,
+        index,
+        eof,
+        this.options.similarity
+      );
+      if (match && match.candidates.length > 1) {
+        throw this._ambiguous(path, nextCtx, match.candidates);
+      }
+      if (match) {
+        newIndex = match.index;
+        fuzz = match.fuzz;
+        similarity = match.similarity;
+      }
+    }
+    
+    if (newIndex === -1) {
+      const ctxTxt = nextCtx.join("\n");
+      throw new DiffError(
+        `Invalid ${eof ? 'EOF ' : ''}context at ${index}:\n${ctxTxt}`,
+        {
+          code: DiffErrorCode.INVALID_CONTEXT,
+          line: this.index + 1,
+          path,
+          context: nextCtx,
+          candidate: closestContext(lines, nextCtx),
         }
+      );
+    }
+    
+    if (
+      this.options.ambiguity === "error" &&
+      nextCtx.length &&
+      similarity === undefined &&
+      (!eof || fuzz >= 10_000)
+    ) {
+      // Under an anchor, only matches inside the anchored block compete.
+      const anchored = anchors.some(anchor => anchor.found);
+      const end = anchored ? blockEnd(lines.lines, index - 1, this.options.tabWidth ?? 4) : lines.length;
+      const candidates = findContextCandidates(lines, nextCtx, index, matchTier(fuzz)).filter(
+        candidate => candidate < end
+      );
+      if (candidates.length > 1) {
+        throw this._ambiguous(path, nextCtx, candidates, anchored);
       }
+    }
 
-      const [nextCtx, chunks, endIdx, eof] = peekNextSection(this.lines, this.index);
-      const [newIndex, fuzz] = findContext(lines, nextCtx, index, eof);
-      
-      if (newIndex === -1) {
-        const ctxTxt = nextCtx.join("\n");
+    let indent: IndentAdjustment | undefined;
+    if (this.options.reindent !== false && matchTier(fuzz) === MatchTier.TRIMMED) {
+      indent = reindentChunks(
+        chunks,
+        nextCtx,
+        lines.lines.slice(newIndex, newIndex + nextCtx.length),
+        this.options.tabWidth ?? 4
+      );
+    }
+
+    this._recordHunk(
+      {
+        path,
+        line: this.index + 1,
+        tier: matchTier(fuzz),
+        eofFallback: fuzz >= 10_000,
+        fuzz: anchors.reduce((sum, anchor) => sum + anchor.fuzz, fuzz),
+        start: newIndex,
+        end: newIndex + nextCtx.length,
+        anchors,
+        similarity,
+        indent,
+      },
+      nextCtx
+    );
+    
+    for (const ch of chunks) {
+      ch.origIndex += newIndex;
+      action.chunks.push(ch);
+    }
+    
+    this.index = endIdx;
+    return newIndex + nextCtx.length;
+  }
+
+  private _findAnchors(
+    lines: LineIndex,
+    defLines: [string, number][],
+    index: number,
+    path: string
+  ): [number, AnchorMatch[]] {
+    /**
+     * Resolve the hunk's `@@` anchors in order, each searched for after the
+     * previous one, and return where the hunk's context is searched from.
+     * A single anchor that is missing is ignored; in a stack, a missing
+     * anchor throws, naming it.
+     */
+    const anchors: AnchorMatch[] = [];
+    let floor = 0;
+    for (const [k, [text, line]] of defLines.entries()) {
+      const [anchorIndex, anchorFuzz] = findAnchor(lines, text, index, floor);
+      if (anchorIndex !== -1) {
+        anchors.push({ text, found: true, fuzz: anchorFuzz });
+        index = floor = anchorIndex;
+        continue;
+      }
+      // An anchor an earlier hunk already entered still scopes this one.
+      const passed = lines.lastBefore(text, "trimmed", floor, index);
+      if (passed === -1 && defLines.length > 1) {
         throw new DiffError(
-          `Invalid ${eof ? 'EOF ' : ''}context at ${index}:\n${ctxTxt}`
+          `Anchor ${k + 1} of ${defLines.length} not found in ${path}: @@ ${text}`,
+          {
+            code: DiffErrorCode.INVALID_CONTEXT,
+            line,
+            path,
+            context: [text],
+          }
         );
       }
-      
-      this.fuzz += fuzz;
-      
-      for (const ch of chunks) {
-        ch.origIndex += newIndex;
-        action.chunks.push(ch);
+      if (passed !== -1) {
+        floor = passed + 1;
       }
-      
-      index = newIndex + nextCtx.length;
-      this.index = endIdx;
+      anchors.push({ text, found: false, fuzz: 0 });
     }
-    
-    return action;
+    return [index, anchors];
+  }
+
+  private _ambiguous(
+    path: string,
+    context: string[],
+    candidates: number[],
+    anchored = false
+  ): AmbiguousContextError {
+    const lineNumbers = candidates.map(i => i + 1);
+    return new AmbiguousContextError(
+      `Ambiguous context in ${path} - matches at lines ${lineNumbers.join(", ")}; ` +
+        `add more context${anchored ? "" : " or an @@ anchor"}:\n${context.join("\n")}`,
+      lineNumbers,
+      { line: this.index + 1, path, context }
+    );
+  }
+
+  private _recordHunk(hunk: HunkMatch, context: string[]): void {
+    /**
+     * Remember how a hunk matched and enforce the caller's fuzz policy. Only
+     * hunks that pass add their fuzz to the total.
+     */
+    const { strict, maxFuzz } = this.options;
+    const fuzz = this.fuzz + hunk.fuzz;
+    if (strict && hunk.fuzz > 0) {
+      throw new DiffError(
+        `Hunk for ${hunk.path} only matched loosely (${hunk.tier}` +
+          `${hunk.eofFallback ? ", away from end of file" : ""}` +
+          `${hunk.anchors.some(anchor => anchor.fuzz) ? ", fuzzy @@ anchor" : ""})`,
+        {
+          code: DiffErrorCode.FUZZ_EXCEEDED,
+          line: hunk.line,
+          path: hunk.path,
+          context,
+        }
+      );
+    }
+    if (maxFuzz !== undefined && fuzz > maxFuzz) {
+      throw new DiffError(`Patch fuzz ${fuzz} exceeds maximum of ${maxFuzz}`, {
+        code: DiffErrorCode.FUZZ_EXCEEDED,
+        line: hunk.line,
+        path: hunk.path,
+        context,
+      });
+    }
+    this.fuzz = fuzz;
+    this.hunks.push(hunk);
   }
 
-  private _parseAddFile(): PatchAction {
+  private _parseAddFile(path: string): PatchAction {
     const lines: string[] = [];
     
     while (
@@ -270,14 +1032,22 @@ export class Parser {
         "*** Update File:",
         "*** Delete File:",
         "*** Add File:",
+        "*** Copy File:",
       ])
     ) {
       const s = this.readLine();
       if (!s.startsWith("+")) {
-        throw new DiffError(`Invalid Add File line (missing '+'): ${s}`);
+        throw new DiffError(`Invalid Add File line (missing '+'): ${s}`, {
+          code: DiffErrorCode.INVALID_LINE,
+          line: this.index,
+          path,
+        });
       }
       lines.push(s.substring(1)); // strip leading '+'
     }
+    if (this.options.finalNewline && lines.length && lines[lines.length - 1] !== "") {
+      lines.push("");
+    }
     
     return {
       type: ActionType.ADD,
@@ -290,8 +1060,40 @@ export class Parser {
 // --------------------------------------------------------------------------- //
 //  Helper functions
 // --------------------------------------------------------------------------- //
+export function findAnchor(
+  lines: string[] | LineIndex,
+  anchor: string,
+  start: number,
+  floor = 0
+): [number, number] {
+  /**
+   * Locate an `@@` scope line at or after *start*, first verbatim and then
+   * ignoring surrounding whitespace. An anchor already passed between
+   * *floor* and *start* is not searched for again. Returns the index of the
+   * line following the anchor and the fuzz incurred, or -1 when the anchor is
+   * not found.
+   */
+  const index = lines instanceof LineIndex ? lines : new LineIndex(lines);
+  for (const [norm, fuzz] of [["exact", 0], ["trimmed", 1]] as const) {
+    if (index.lastBefore(anchor, norm, floor, start) === -1) {
+      const i = index.firstAt(anchor, norm, start);
+      if (i !== -1) {
+        return [i + 1, fuzz];
+      }
+    }
+  }
+  return [-1, 0];
+}
+
+// Match tiers in the order they are tried, with the fuzz each one costs.
+const CONTEXT_TIERS: [LineNorm, number][] = [
+  ["exact", 0],
+  ["trailing", 1],
+  ["trimmed", 100],
+];
+
 function findContextCore(
-  lines: string[],
+  lines: LineIndex,
   context: string[],
   start: number
 ): [number, number] {
@@ -299,59 +1101,272 @@ function findContextCore(
     return [start, 0];
   }
 
-  for (let i = start; i <= lines.length - context.length; i++) {
-    if (arraysEqual(lines.slice(i, i + context.length), context)) {
-      return [i, 0];
+  for (const [norm, fuzz] of CONTEXT_TIERS) {
+    const i = lines.find(context, start, norm);
+    if (i !== -1) {
+      return [i, fuzz];
     }
   }
-  
-  for (let i = start; i <= lines.length - context.length; i++) {
-    if (arraysEqual(
-      lines.slice(i, i + context.length).map(s => s.replace(/\s+$/, "")),
-      context.map(s => s.replace(/\s+$/, ""))
-    )) {
-      return [i, 1];
+  return [-1, 0];
+}
+
+function findContextCandidates(
+  lines: LineIndex,
+  context: string[],
+  start: number,
+  tier: MatchTier
+): number[] {
+  /**
+   * Every position at or after *start* where *context* matches at *tier*.
+   */
+  const norm: LineNorm =
+    tier === MatchTier.EXACT
+      ? "exact"
+      : tier === MatchTier.TRAILING_WHITESPACE
+        ? "trailing"
+        : "trimmed";
+  return lines.findAll(context, start, norm);
+}
+
+function closestContext(
+  lines: LineIndex,
+  context: string[]
+): ContextCandidate | undefined {
+  /**
+   * Find the window of the file that shares the most lines with *context*
+   * (ignoring surrounding whitespace), to point at where a failed hunk was
+   * probably meant to go.
+   */
+  if (!context.length || lines.length < context.length) {
+    return undefined;
+  }
+  const wanted = context.map(s => s.trim());
+  const trimmed = lines.normalize("trimmed");
+  let best: ContextCandidate | undefined;
+
+  for (let i = 0; i <= trimmed.length - wanted.length; i++) {
+    let matched = 0;
+    for (let k = 0; k < wanted.length; k++) {
+      if (trimmed[i + k] === wanted[k]) {
+        matched += 1;
+      }
+    }
+    if (matched && (!best || matched / wanted.length > best.similarity)) {
+      best = { line: i + 1, similarity: matched / wanted.length };
     }
   }
-  
+
+  return best;
+}
+
+function lineSimilarity(a: string, b: string): number {
+  /**
+   * 1 - normalized Levenshtein distance between the trimmed lines.
+   */
+  a = a.trim();
+  b = b.trim();
+  if (a === b) {
+    return 1;
+  }
+  const longest = Math.max(a.length, b.length);
+  if (Math.min(a.length, b.length) === 0) {
+    return 0;
+  }
+
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row.push(
+        Math.min(
+          prev[j]! + 1,
+          row[j - 1]! + 1,
+          prev[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+        )
+      );
+    }
+    prev = row;
+  }
+  return 1 - prev[b.length]! / longest;
+}
+
+interface SimilarMatch {
+  index: number;
+  fuzz: number;
+  similarity: number;
+  /** Every start index sharing the best score; more than one is ambiguous. */
+  candidates: number[];
+}
+
+function findSimilarContext(
+  lines: string[],
+  context: string[],
+  start: number,
+  eof: boolean,
+  threshold: number
+): SimilarMatch | undefined {
+  /**
+   * Last-resort tier: score every window by the average similarity of its
+   * lines to *context* and return the best one reaching *threshold*.
+   */
+  const scoreAt = (i: number) =>
+    context.reduce((sum, line, k) => sum + lineSimilarity(lines[i + k]!, line), 0) /
+    context.length;
+
+  if (eof && lines.length >= context.length) {
+    const end = lines.length - context.length;
+    const similarity = scoreAt(end);
+    if (similarity >= threshold) {
+      return { index: end, fuzz: 1000, similarity, candidates: [end] };
+    }
+  }
+
+  let best: SimilarMatch | undefined;
   for (let i = start; i <= lines.length - context.length; i++) {
-    if (arraysEqual(
-      lines.slice(i, i + context.length).map(s => s.trim()),
-      context.map(s => s.trim())
-    )) {
-      return [i, 100];
+    const similarity = scoreAt(i);
+    if (similarity < threshold) {
+      continue;
+    }
+    if (!best || similarity > best.similarity + 1e-9) {
+      best = { index: i, fuzz: eof ? 11_000 : 1000, similarity, candidates: [i] };
+    } else if (Math.abs(similarity - best.similarity) <= 1e-9) {
+      best.candidates.push(i);
     }
   }
-  
-  return [-1, 0];
+  return best;
 }
 
-function arraysEqual<T>(a: T[], b: T[]): boolean {
-  return a.length === b.length && a.every((val, idx) => val === b[idx]);
+function matchTier(fuzz: number): MatchTier {
+  const core = fuzz % 10_000;
+  if (core >= 1000) {
+    return MatchTier.SIMILAR;
+  }
+  if (core >= 100) {
+    return MatchTier.TRIMMED;
+  }
+  return core >= 1 ? MatchTier.TRAILING_WHITESPACE : MatchTier.EXACT;
+}
+
+function indentWidth(indent: string, tabWidth: number): number {
+  let width = 0;
+  for (const ch of indent) {
+    width = ch === "\t" ? width + tabWidth - (width % tabWidth) : width + 1;
+  }
+  return width;
+}
+
+function blockEnd(lines: string[], anchor: number, tabWidth: number): number {
+  /**
+   * The end of the block that starts at line *anchor*: the next non-blank
+   * line indented no deeper than it, such as a closing brace or the next
+   * definition.
+   */
+  const width = (line: string) => indentWidth(line.match(/^\s*/)![0], tabWidth);
+  const depth = width(lines[anchor]!);
+  for (let i = anchor + 1; i < lines.length; i++) {
+    if (lines[i]!.trim() && width(lines[i]!) <= depth) {
+      return i;
+    }
+  }
+  return lines.length;
+}
+
+function reindentChunks(
+  chunks: Chunk[],
+  context: string[],
+  matched: string[],
+  tabWidth: number
+): IndentAdjustment | undefined {
+  /**
+   * Shift the inserted lines of each of *chunks* (indexed into *context*) by
+   * the indentation offset between the context and deleted lines around it
+   * and the file lines they *matched*, in the file's tabs or spaces. Lines
+   * that match exactly, such as an `@@`-style header, do not count; without
+   * any nearby offset the whole hunk's is used. A chunk whose lines are off
+   * by different amounts is left alone. Reports the first chunk's shift.
+   */
+  const indent = (line: string) => indentWidth(line.match(/^[ \t]*/)![0], tabWidth);
+  // The common offset of the lines at *indexes*: undefined if none is off,
+  // null if they disagree.
+  const offset = (indexes: number[]): number | null | undefined => {
+    let shift: number | undefined;
+    for (const k of indexes) {
+      const line = context[k];
+      const file = matched[k];
+      if (line === undefined || file === undefined || line === file || !line.trim() || !file.trim()) {
+        continue;
+      }
+      const delta = indent(file) - indent(line);
+      if (shift !== undefined && delta !== shift) {
+        return null;
+      }
+      shift = delta;
+    }
+    return shift;
+  };
+  const hunkShift = offset([...context.keys()]);
+
+  const tabs = matched.some(line => line.startsWith("\t"));
+  let adjustment: IndentAdjustment | undefined;
+  for (const chunk of chunks) {
+    const end = chunk.origIndex + chunk.delLines.length;
+    const near = [];
+    for (let k = chunk.origIndex - 1; k <= end; k++) {
+      near.push(k);
+    }
+    const nearShift = offset(near);
+    const shift = nearShift === undefined ? hunkShift : nearShift;
+    if (shift === undefined || shift === null) {
+      continue;
+    }
+
+    let changed = false;
+    chunk.insLines = chunk.insLines.map(line => {
+      if (!line.trim()) {
+        return line;
+      }
+      const current = line.match(/^[ \t]*/)![0];
+      const width = Math.max(indentWidth(current, tabWidth) + shift, 0);
+      const replaced = tabs
+        ? "\t".repeat(Math.floor(width / tabWidth)) + " ".repeat(width % tabWidth)
+        : " ".repeat(width);
+      changed ||= replaced !== current;
+      return replaced + line.substring(current.length);
+    });
+    if (changed) {
+      adjustment ??= { shift, tabs };
+    }
+  }
+  return adjustment;
 }
 
 export function findContext(
-  lines: string[],
+  lines: string[] | LineIndex,
   context: string[],
   start: number,
   eof: boolean
 ): [number, number] {
+  const index = lines instanceof LineIndex ? lines : new LineIndex(lines);
   if (eof) {
+    // A file ending in a newline has an empty last line that the hunk's
+    // context may stop short of.
+    const last = index.lines[index.length - 1];
+    const trailing = last === "" && context[context.length - 1] !== "";
     const [newIndex, fuzz] = findContextCore(
-      lines,
+      index,
       context,
-      Math.max(0, lines.length - context.length)
+      Math.max(0, index.length - context.length - (trailing ? 1 : 0))
     );
     
     if (newIndex !== -1) {
       return [newIndex, fuzz];
     }
     
-    const [newIndex2, fuzz2] = findContextCore(lines, context, start);
+    const [newIndex2, fuzz2] = findContextCore(index, context, start);
     return [newIndex2, fuzz2 + 10_000];
   }
   
-  return findContextCore(lines, context, start);
+  return findContextCore(index, context, start);
 }
 
 export function peekNextSection(
@@ -366,7 +1381,7 @@ export function peekNextSection(
   const origIndex = index;
 
   while (index < lines.length) {
-    const s = lines[index];
+    const s = Parser._norm(lines[index]!);
     if (!s) {
       index += 1;
       continue;
@@ -382,6 +1397,8 @@ export function peekNextSection(
       "*** Delete File:"
     ) || s.startsWith(
       "*** Add File:"
+    ) || s.startsWith(
+      "*** Copy File:"
     ) || s.startsWith(
       "*** End of File"
     )) {
@@ -393,7 +1410,10 @@ export function peekNextSection(
     }
     
     if (s.startsWith("***")) {
-      throw new DiffError(`Invalid Line: ${s}`);
+      throw new DiffError(`Invalid Line: ${s}`, {
+        code: DiffErrorCode.INVALID_LINE,
+        line: index + 1,
+      });
     }
     
     index += 1;
@@ -412,7 +1432,10 @@ export function peekNextSection(
     } else if (line[0] === " ") {
       mode = "keep";
     } else {
-      throw new DiffError(`Invalid Line: ${s}`);
+      throw new DiffError(`Invalid Line: ${s}`, {
+        code: DiffErrorCode.INVALID_LINE,
+        line: index,
+      });
     }
     
     line = line.substring(1);
@@ -447,52 +1470,133 @@ export function peekNextSection(
     });
   }
 
-  if (index < lines.length && lines[index] === "*** End of File") {
+  if (index < lines.length && Parser._norm(lines[index]!) === "*** End of File") {
     index += 1;
     return [old, chunks, index, true];
   }
 
   if (index === origIndex) {
-    throw new DiffError("Nothing in this section");
+    throw new DiffError("Nothing in this section", {
+      code: DiffErrorCode.EMPTY_SECTION,
+      line: index + 1,
+    });
   }
   
   return [old, chunks, index, false];
 }
 
+// --------------------------------------------------------------------------- //
+//  File text layout
+// --------------------------------------------------------------------------- //
+interface FileLayout {
+  /** Lines without their terminators; a trailing newline leaves a last "". */
+  lines: string[];
+  /** Terminator of each line but the last ("\n" or "\r\n"). */
+  endings: string[];
+  bom: string;
+  /** The most common terminator, used for inserted lines. */
+  eol: string;
+}
+
+function splitFile(text: string): FileLayout {
+  const bom = text.startsWith("\uFEFF") ? "\uFEFF" : "";
+  const parts = text.substring(bom.length).split("\n");
+  const lines: string[] = [];
+  const endings: string[] = [];
+  let crlf = 0;
+
+  parts.forEach((part, i) => {
+    const last = i === parts.length - 1;
+    const cr = !last && part.endsWith("\r");
+    lines.push(cr ? part.slice(0, -1) : part);
+    if (!last) {
+      endings.push(cr ? "\r\n" : "\n");
+      crlf += cr ? 1 : 0;
+    }
+  });
+
+  return { lines, endings, bom, eol: crlf > endings.length - crlf ? "\r\n" : "\n" };
+}
+
+export function normalizeFileMode(mode: string): string | undefined {
+  /**
+   * Reduce "755", "0755" or git's "100755" to the permission bits ("755"),
+   * or return undefined if *mode* is not an octal mode.
+   */
+  if (!/^[0-7]{3,6}$/.test(mode)) {
+    return undefined;
+  }
+  return (parseInt(mode, 8) & 0o777).toString(8).padStart(3, "0");
+}
+
+export function splitLines(text: string): string[] {
+  /**
+   * Split file text into the lines hunks are matched against: without a BOM
+   * and without line terminators, so LF and CRLF files compare alike.
+   */
+  return splitFile(text).lines;
+}
+
 // --------------------------------------------------------------------------- //
 //  Patch → Commit and Commit application
 // --------------------------------------------------------------------------- //
 function getUpdatedFile(text: string, action: PatchAction, path: string): string {
-  if (action.type !== ActionType.UPDATE) {
-    throw new DiffError("getUpdatedFile called with non-update action");
+  if (action.type !== ActionType.UPDATE && action.type !== ActionType.COPY) {
+    throw new DiffError("getUpdatedFile called with non-update action", {
+      code: DiffErrorCode.INVALID_CHUNK,
+      path,
+    });
   }
   
-  const origLines = text.split("\n");
+  const { lines: origLines, endings, bom, eol } = splitFile(text);
   const destLines: string[] = [];
+  const destEndings: (string | undefined)[] = [];
   let origIndex = 0;
 
+  const keep = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      destLines.push(origLines[i]!);
+      destEndings.push(endings[i]);
+    }
+  };
+
   for (const chunk of action.chunks) {
     if (chunk.origIndex > origLines.length) {
       throw new DiffError(
-        `${path}: chunk.origIndex ${chunk.origIndex} exceeds file length`
+        `${path}: chunk.origIndex ${chunk.origIndex} exceeds file length`,
+        { code: DiffErrorCode.INVALID_CHUNK, path }
       );
     }
     
     if (origIndex > chunk.origIndex) {
       throw new DiffError(
-        `${path}: overlapping chunks at ${origIndex} > ${chunk.origIndex}`
+        `${path}: overlapping chunks at ${origIndex} > ${chunk.origIndex}`,
+        { code: DiffErrorCode.INVALID_CHUNK, path }
       );
     }
 
-    destLines.push(...origLines.slice(origIndex, chunk.origIndex));
+    keep(origIndex, chunk.origIndex);
     origIndex = chunk.origIndex;
 
-    destLines.push(...chunk.insLines);
+    for (const line of chunk.insLines) {
+      destLines.push(line);
+      destEndings.push(undefined);
+    }
     origIndex += chunk.delLines.length;
   }
 
-  destLines.push(...origLines.slice(origIndex));
-  return destLines.join("\n");
+  keep(origIndex, origLines.length);
+
+  // Unchanged lines keep their own line ending; inserted ones (and a former
+  // last line that gained successors) use the file's dominant one.
+  let result = bom;
+  for (let i = 0; i < destLines.length; i++) {
+    result += destLines[i];
+    if (i < destLines.length - 1) {
+      result += destEndings[i] ?? eol;
+    }
+  }
+  return result;
 }
 
 export function patchToCommit(patch: Patch, orig: Record<string, string>): Commit {
@@ -506,12 +1610,13 @@ export function patchToCommit(patch: Patch, orig: Record<string, string>): Commi
       };
     } else if (action.type === ActionType.ADD) {
       if (action.newFile === undefined) {
-        throw new DiffError("ADD action without file content");
+        throw new DiffError("ADD action without file content", { path });
       }
       
       commit.changes[path] = {
         type: ActionType.ADD,
         newContent: action.newFile,
+        mode: action.mode,
       };
     } else if (action.type === ActionType.UPDATE) {
       const newContent = getUpdatedFile(orig[path]!, action, path);
@@ -521,6 +1626,16 @@ export function patchToCommit(patch: Patch, orig: Record<string, string>): Commi
         oldContent: orig[path],
         newContent,
         movePath: action.movePath,
+        mode: action.mode,
+      };
+    } else if (action.type === ActionType.COPY) {
+      const source = action.copyFrom!;
+      commit.changes[path] = {
+        type: ActionType.COPY,
+        copyFrom: source,
+        oldContent: orig[source],
+        newContent: getUpdatedFile(orig[source]!, action, path),
+        mode: action.mode,
       };
     }
   }
@@ -531,20 +1646,158 @@ export function patchToCommit(patch: Patch, orig: Record<string, string>): Commi
 // --------------------------------------------------------------------------- //
 //  User-facing helpers
 // --------------------------------------------------------------------------- //
-export function textToPatch(text: string, orig: Record<string, string>): [Patch, number] {
-  const lines = text.split("\n");  // preserves blank lines, no strip()
+export function wrapperRepair(text: string, line: number): Repair {
+  /**
+   * The repair for a line outside the patch that lenient parsing ignores:
+   * a markdown fence, prose or whitespace.
+   */
+  const kind = text.trim().startsWith("```")
+    ? RepairKind.FENCE
+    : text.trim()
+      ? RepairKind.PROSE
+      : RepairKind.WHITESPACE;
+  return { kind, line, text };
+}
+
+function unwrapPatch(lines: string[]): [string[], number, Repair[]] | undefined {
+  /**
+   * Find the patch within *lines*, ignoring fences, prose and whitespace
+   * around it. Returns the lines up to `*** End Patch` with both sentinels
+   * cleaned up, the index of `*** Begin Patch` and the repairs made, or
+   * undefined when either sentinel is missing.
+   */
+  const texts = lines.map(line => Parser._norm(line));
+  const begin = texts.findIndex(text => text.trim().startsWith("*** Begin Patch"));
+  const end = texts.findLastIndex(text => text.trim() === "*** End Patch");
+  if (begin === -1 || end <= begin) {
+    return undefined;
+  }
+
+  const repairs: Repair[] = [];
+  texts.forEach((text, i) => {
+    if ((i === begin || i === end) && text !== text.trim()) {
+      repairs.push({ kind: RepairKind.WHITESPACE, line: i + 1, text });
+    } else if (i < begin || (i > end && text.trim())) {
+      // Blank lines after the patch, such as its final newline, need no repair.
+      repairs.push(wrapperRepair(text, i + 1));
+    }
+  });
+
+  const unwrapped = lines.slice(0, end + 1);
+  unwrapped[begin] = texts[begin]!.trim();
+  unwrapped[end] = "*** End Patch";
+  return [unwrapped, begin, repairs];
+}
+
+export function parsePatch(
+  text: string,
+  orig: Record<string, string>,
+  options: ParseOptions = {}
+): ParseResult {
+  /**
+   * Parse patch text against *orig* and report how every hunk matched.
+   */
+  let lines = text.split("\n");  // preserves blank lines, no strip()
+  let begin = 0;
+  let repairs: Repair[] = [];
+  const unwrapped = options.lenient ? unwrapPatch(lines) : undefined;
+  if (unwrapped) {
+    [lines, begin, repairs] = unwrapped;
+  }
   
   if (
     lines.length < 2 ||
-    !Parser._norm(lines[0]!).startsWith("*** Begin Patch") ||
+    !Parser._norm(lines[begin]!).startsWith("*** Begin Patch") ||
     Parser._norm(lines[lines.length - 1]!) !== "*** End Patch"
   ) {
-    throw new DiffError("Invalid patch text - missing sentinels");
+    throw new DiffError("Invalid patch text - missing sentinels", {
+      code: DiffErrorCode.MISSING_SENTINEL,
+    });
+  }
+
+  const parser = new Parser(orig, lines, begin + 1, options);
+  parser.parse();
+  return {
+    patch: parser.patch,
+    fuzz: parser.fuzz,
+    hunks: parser.hunks,
+    errors: parser.errors,
+    rejects: parser.rejects,
+    repairs: [...repairs, ...parser.repairs].sort((a, b) => a.line - b.line),
+  };
+}
+
+export function checkPatch(
+  text: string,
+  orig: Record<string, string>,
+  options: ParseOptions = {}
+): CheckResult {
+  /**
+   * Parse and test-apply *text* without producing output, collecting every
+   * problem across all files and hunks instead of stopping at the first.
+   */
+  let lines = text.split("\n");
+  let begin = 0;
+  const unwrapped = options.lenient ? unwrapPatch(lines) : undefined;
+  if (unwrapped) {
+    [lines, begin] = unwrapped;
+  }
+  const errors: DiffError[] = [];
+  const hasBegin = Parser._norm(lines[begin]!).startsWith("*** Begin Patch");
+  if (!hasBegin) {
+    errors.push(
+      new DiffError("Patch text must start with *** Begin Patch", {
+        code: DiffErrorCode.MISSING_SENTINEL,
+        line: 1,
+      })
+    );
   }
 
-  const parser = new Parser(orig, lines, 1);
+  const parser = new Parser(orig, lines, hasBegin ? begin + 1 : 0, {
+    ...options,
+    collectErrors: true,
+  });
   parser.parse();
-  return [parser.patch, parser.fuzz];
+  errors.push(...parser.errors);
+
+  if (
+    Parser._norm(lines[lines.length - 1]!) !== "*** End Patch" &&
+    !parser.errors.some(error => error.code === DiffErrorCode.MISSING_SENTINEL)
+  ) {
+    errors.push(
+      new DiffError("Patch text must end with *** End Patch", {
+        code: DiffErrorCode.MISSING_SENTINEL,
+        line: lines.length,
+      })
+    );
+  }
+
+  for (const [path, action] of Object.entries(parser.patch.actions)) {
+    try {
+      patchToCommit({ actions: { [path]: action } }, orig);
+    } catch (error) {
+      if (!(error instanceof DiffError)) {
+        throw error;
+      }
+      errors.push(error);
+    }
+  }
+
+  return {
+    ok: errors.length === 0,
+    errors,
+    hunks: parser.hunks,
+    fuzz: parser.fuzz,
+  };
+}
+
+export function textToPatch(
+  text: string,
+  orig: Record<string, string>,
+  options: ParseOptions = {}
+): [Patch, number] {
+  const { patch, fuzz } = parsePatch(text, orig, options);
+  return [patch, fuzz];
 }
 
 export function identifyFilesNeeded(text: string): string[] {
@@ -556,15 +1809,19 @@ export function identifyFilesNeeded(text: string): string[] {
   const deleteFiles = lines
     .filter(line => line.startsWith("*** Delete File: "))
     .map(line => line.substring("*** Delete File: ".length));
+
+  const copySources = lines
+    .filter(line => line.startsWith("*** Copy File: "))
+    .map(line => line.substring("*** Copy File: ".length));
     
-  return [...updateFiles, ...deleteFiles];
+  return [...updateFiles, ...deleteFiles, ...copySources];
 }
 
 export function identifyFilesAdded(text: string): string[] {
   const lines = text.split("\n");
   return lines
-    .filter(line => line.startsWith("*** Add File: "))
-    .map(line => line.substring("*** Add File: ".length));
+    .filter(line => line.startsWith("*** Add File: ") || line.startsWith("*** Copy to: "))
+    .map(line => line.substring(line.indexOf(": ") + 2));
 }
 
 // --------------------------------------------------------------------------- //
@@ -578,30 +1835,167 @@ export function applyCommit(commit: Commit): Record<string, string> {
       // Skip deleted files (don't add to result)
     } else if (change.type === ActionType.ADD) {
       if (change.newContent === undefined) {
-        throw new DiffError(`ADD change for ${path} has no content`);
+        throw new DiffError(`ADD change for ${path} has no content`, { path });
       }
       result[path] = change.newContent;
     } else if (change.type === ActionType.UPDATE) {
       if (change.newContent === undefined) {
-        throw new DiffError(`UPDATE change for ${path} has no new content`);
+        throw new DiffError(`UPDATE change for ${path} has no new content`, { path });
       }
       const target = change.movePath || path;
       result[target] = change.newContent;
+    } else if (change.type === ActionType.COPY) {
+      if (change.newContent === undefined) {
+        throw new DiffError(`COPY change for ${path} has no content`, { path });
+      }
+      result[path] = change.newContent;
     }
   }
   
   return result;
 }
 
+export function applyCommitToFiles(
+  files: Record<string, string>,
+  commit: Commit
+): Record<string, string> {
+  /**
+   * Apply *commit* to the complete file map *files*. Unlike `applyCommit`,
+   * which returns only the files the commit writes, the result also holds
+   * every untouched file.
+   */
+  const result = { ...files };
+  for (const [path, change] of Object.entries(commit.changes)) {
+    if (
+      change.type === ActionType.DELETE ||
+      (change.type === ActionType.UPDATE && change.movePath && change.movePath !== path)
+    ) {
+      delete result[path];
+    }
+  }
+  return Object.assign(result, applyCommit(commit));
+}
+
+export function invertCommit(commit: Commit): Commit {
+  /**
+   * Build the commit that undoes *commit*: adds become deletes and vice
+   * versa, updates swap their contents and moves point back to the source.
+   * Copies are undone by deleting the copy; modes are only restored where
+   * `oldMode` is known. A move onto a file the commit deletes is undone by
+   * restoring that file's content and adding the source back.
+   */
+  const inverse: Commit = { changes: {} };
+  const conflict = (target: string) =>
+    new DiffError(`Cannot invert commit - conflicting changes for ${target}`, {
+      path: target,
+    });
+
+  for (const [path, change] of Object.entries(commit.changes)) {
+    const target = change.type === ActionType.UPDATE ? change.movePath || path : path;
+    const replaced = commit.changes[target];
+    if (change.type === ActionType.DELETE && change.oldContent === undefined) {
+      throw new DiffError(`DELETE change for ${path} has no old content`, { path });
+    }
+    const movedOnto = Object.values(commit.changes).some(
+      other => other.type === ActionType.UPDATE && other.movePath === path
+    );
+    if (change.type === ActionType.DELETE && movedOnto) {
+      // Restored by the move's inverse below.
+      continue;
+    }
+    if (target in inverse.changes) {
+      throw conflict(target);
+    }
+
+    if (change.type === ActionType.DELETE) {
+      inverse.changes[target] = {
+        type: ActionType.ADD,
+        newContent: change.oldContent,
+        mode: change.oldMode,
+      };
+    } else if (change.type === ActionType.ADD || change.type === ActionType.COPY) {
+      inverse.changes[target] = {
+        type: ActionType.DELETE,
+        oldContent: change.newContent,
+        oldMode: change.mode,
+      };
+    } else if (target !== path && replaced?.type === ActionType.DELETE) {
+      if (path in inverse.changes) {
+        throw conflict(path);
+      }
+      const mode = change.mode ?? change.oldMode;
+      inverse.changes[target] = {
+        type: ActionType.UPDATE,
+        oldContent: change.newContent,
+        newContent: replaced.oldContent,
+        mode: replaced.oldMode !== mode ? replaced.oldMode : undefined,
+        oldMode: mode,
+      };
+      inverse.changes[path] = {
+        type: ActionType.ADD,
+        newContent: change.oldContent,
+        mode: change.oldMode,
+      };
+    } else if (change.type === ActionType.UPDATE) {
+      inverse.changes[target] = {
+        type: ActionType.UPDATE,
+        oldContent: change.newContent,
+        newContent: change.oldContent,
+        movePath: change.movePath ? path : undefined,
+        mode: change.mode ? change.oldMode : undefined,
+        oldMode: change.mode,
+      };
+    }
+  }
+
+  return inverse;
+}
+
+export function processPatchPartial(
+  text: string,
+  orig: Record<string, string>,
+  options: ParseOptions = {}
+): PartialResult {
+  /**
+   * Apply every hunk that locates successfully and return the ones that did
+   * not as rejects, instead of failing the whole patch.
+   */
+  const { patch, hunks, rejects } = parsePatch(text, orig, {
+    ...options,
+    collectErrors: true,
+  });
+
+  // Leave out files whose every hunk was rejected.
+  for (const reject of rejects) {
+    const action = reject.path !== undefined ? patch.actions[reject.path] : undefined;
+    if (
+      action?.type === ActionType.UPDATE &&
+      !action.chunks.length &&
+      !action.movePath &&
+      !action.mode
+    ) {
+      delete patch.actions[reject.path!];
+    }
+  }
+
+  const commit = patchToCommit(patch, orig);
+  return { files: applyCommit(commit), rejects, hunks };
+}
+
 export function processPatch(
   text: string,
-  orig: Record<string, string>
+  orig: Record<string, string>,
+  options: ParseOptions = {}
 ): Record<string, string> {
-  if (!text.startsWith("*** Begin Patch")) {
-    throw new DiffError("Patch text must start with *** Begin Patch");
+  // Lenient parsing finds the patch inside surrounding prose itself.
+  if (!options.lenient && !text.startsWith("*** Begin Patch")) {
+    throw new DiffError("Patch text must start with *** Begin Patch", {
+      code: DiffErrorCode.MISSING_SENTINEL,
+      line: 1,
+    });
   }
   
-  const [patch, _fuzz] = textToPatch(text, orig);
+  const [patch, _fuzz] = textToPatch(text, orig, options);
   const commit = patchToCommit(patch, orig);
   return applyCommit(commit);
 } 
\ No newline at end of file
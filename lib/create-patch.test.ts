@@ -0,0 +1,227 @@
+import { describe, test, expect } from "bun:test";
+import { commitToText, createPatch, createUndoPatch, patchToText } from "./create-patch";
+import { ActionType, patchToCommit, processPatch, textToPatch } from "./apply-patch";
+
+function roundTrip(
+  orig: Record<string, string>,
+  updated: Record<string, string>,
+  context?: number
+): Record<string, string> {
+  return processPatch(createPatch(orig, updated, { context }), orig);
+}
+
+describe("create-patch", () => {
+  describe("createPatch", () => {
+    test("emits an update section with context", () => {
+      const orig = { "src/file.ts": "a\nb\nc\nd\ne" };
+      const updated = { "src/file.ts": "a\nb\nC\nd\ne" };
+
+      expect(createPatch(orig, updated, { context: 1 })).toBe(`*** Begin Patch
+*** Update File: src/file.ts
+@@
+ b
+-c
++C
+ d
+*** End Patch`);
+      expect(roundTrip(orig, updated)).toEqual(updated);
+    });
+
+    test("emits add, delete and move sections", () => {
+      const orig = {
+        "src/old.ts": "export const x = 1;",
+        "src/gone.ts": "bye",
+      };
+      const updated = {
+        "src/new.ts": "export const x = 1;",
+        "src/added.ts": "hello\nworld\n",
+      };
+
+      const text = createPatch(orig, updated);
+      expect(text).toBe(`*** Begin Patch
+*** Update File: src/old.ts
+*** Move to: src/new.ts
+*** Delete File: src/gone.ts
+*** Add File: src/added.ts
++hello
++world
++
+*** End Patch`);
+
+      const result = processPatch(text, orig);
+      expect(result["src/new.ts"]).toBe("export const x = 1;");
+      expect(result["src/added.ts"]).toBe("hello\nworld\n");
+      expect(result["src/gone.ts"]).toBeUndefined();
+    });
+
+    test("uses the enclosing scope as an @@ anchor", () => {
+      const orig = {
+        "a.py": [
+          "class Foo:",
+          "    def bar(self):",
+          "        return 1",
+        ].join("\n"),
+      };
+      const updated = { "a.py": orig["a.py"].replace("return 1", "return 2") };
+
+      const text = createPatch(orig, updated, { context: 0 });
+      expect(text).toContain("@@     def bar(self):");
+      expect(roundTrip(orig, updated, 0)).toEqual(updated);
+    });
+
+    test("disambiguates repeated context", () => {
+      const block = ["if (x) {", "  return null;", "}"];
+      const orig = {
+        "f.ts": [...block, "// one", ...block, "// two", ...block].join("\n"),
+      };
+      const lines = orig["f.ts"].split("\n");
+      lines[9] = "  return undefined;";
+      const updated = { "f.ts": lines.join("\n") };
+
+      for (const context of [0, 1, 3]) {
+        expect(roundTrip(orig, updated, context)).toEqual(updated);
+      }
+    });
+
+    test("round-trips multiple hunks, insertions and trailing newlines", () => {
+      const origLines = Array.from({ length: 40 }, (_, i) => `line ${i}`);
+      const newLines = [...origLines];
+      newLines.splice(30, 2, "changed 30");
+      newLines.splice(10, 0, "inserted");
+      newLines[0] = "first";
+      const orig = { "big.txt": `${origLines.join("\n")}\n` };
+      const updated = { "big.txt": `${newLines.join("\n")}\nlast\n` };
+
+      for (const context of [0, 2, 3, 10]) {
+        expect(roundTrip(orig, updated, context)).toEqual(updated);
+      }
+    });
+  });
+
+  describe("line endings", () => {
+    test("round-trips CRLF files with a BOM", () => {
+      const orig = { "win.txt": "\uFEFFa\r\nb\r\nc\r\n" };
+      const updated = { "win.txt": "\uFEFFa\r\nB\r\nc\r\nd\r\n" };
+
+      expect(roundTrip(orig, updated)).toEqual(updated);
+    });
+  });
+
+  describe("createUndoPatch", () => {
+    test("rolls back an applied patch", () => {
+      const orig: Record<string, string> = {
+        "src/keep.ts": "one\ntwo\nthree\n",
+        "src/old.ts": "export const name = \"old\";\n",
+        "src/gone.ts": "bye\n",
+      };
+      const patchText = `*** Begin Patch
+*** Update File: src/keep.ts
+ one
+-two
++TWO
+ three
+*** Update File: src/old.ts
+*** Move to: src/new.ts
+-export const name = "old";
++export const name = "new";
+*** Delete File: src/gone.ts
+*** Add File: src/added.ts
++hello
+*** End Patch`;
+
+      const [patch] = textToPatch(patchText, orig);
+      const commit = patchToCommit(patch, orig);
+      const after = processPatch(patchText, orig);
+      const undone = processPatch(createUndoPatch(commit), after);
+
+      expect(undone).toEqual(orig);
+    });
+  });
+
+  describe("patchToText", () => {
+    test("normalizes a loosely written patch", () => {
+      const orig = {
+        "src/app.ts": "function main() {\n  start();\n  run();\n  stop();\n}\n",
+      };
+      const patchText = `*** Begin Patch
+*** Update File: src/app.ts
+*** Move to: src/main.ts
+@@
+-  run();   
++  runAll();
+*** End Patch`;
+
+      const [patch] = textToPatch(patchText, orig);
+      const text = patchToText(patch, orig, { context: 1 });
+
+      expect(text).toBe(`*** Begin Patch
+*** Update File: src/app.ts
+*** Move to: src/main.ts
+@@ function main() {
+   start();
+-  run();
++  runAll();
+   stop();
+*** End Patch`);
+      const [reparsed, fuzz] = textToPatch(text, orig);
+      expect(fuzz).toBe(0);
+      expect(patchToCommit(reparsed, orig)).toEqual(patchToCommit(patch, orig));
+    });
+
+    test("renders a programmatically built patch", () => {
+      const orig = { "a.txt": "one\ntwo\nthree", "b.txt": "bye" };
+      const patch = {
+        actions: {
+          "a.txt": {
+            type: ActionType.UPDATE,
+            chunks: [{ origIndex: 3, delLines: [], insLines: ["four"] }],
+          },
+          "b.txt": { type: ActionType.DELETE, chunks: [] },
+          "c.txt": { type: ActionType.ADD, newFile: "new", chunks: [] },
+        },
+      };
+
+      const text = patchToText(patch, orig);
+      const [reparsed] = textToPatch(text, orig);
+
+      expect(patchToCommit(reparsed, orig)).toEqual(patchToCommit(patch, orig));
+      expect(processPatch(text, orig)).toEqual({
+        "a.txt": "one\ntwo\nthree\nfour",
+        "c.txt": "new",
+      });
+    });
+  });
+
+  describe("copies and modes", () => {
+    test("renders copy and mode sections that apply again", () => {
+      const orig = { "src/a.ts": "one\ntwo\nthree\n", "run.sh": "echo\n" };
+      const commit = {
+        changes: {
+          "src/b.ts": {
+            type: ActionType.COPY,
+            copyFrom: "src/a.ts",
+            oldContent: orig["src/a.ts"],
+            newContent: "one\nTWO\nthree\n",
+          },
+          "run.sh": { type: ActionType.UPDATE, oldContent: "echo\n", newContent: "echo\n", mode: "755" },
+        },
+      };
+
+      const text = commitToText(commit, { context: 1 });
+
+      expect(text).toBe(`*** Begin Patch
+*** Copy File: src/a.ts
+*** Copy to: src/b.ts
+@@
+ one
+-two
++TWO
+ three
+*** Update File: run.sh
+*** Mode: 755
+*** End Patch`);
+      const [patch] = textToPatch(text, orig);
+      expect(patchToCommit(patch, orig).changes).toEqual(commit.changes);
+    });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Produce "pseudo-diff" patch text from two versions of a collection of text
+ * files. The output is guaranteed to round-trip through `processPatch`.
+ */
+
+import {
+  ActionType,
+  DiffError,
+  DiffErrorCode,
+  findAnchor,
+  findContext,
+  invertCommit,
+  splitLines,
+  type Chunk,
+  type Commit,
+  type Patch,
+} from "./apply-patch";
+import { LineIndex } from "./line-index";
+import { diffLines, groupChunks } from "./line-diff";
+
+export interface CreatePatchOptions {
+  /** Unchanged lines shown before and after each change (default 3). */
+  context?: number;
+  /** Emit the enclosing, less indented line as an `@@` anchor (default true). */
+  scopeAnchors?: boolean;
+}
+
+// --------------------------------------------------------------------------- //
+//  File map → Patch
+// --------------------------------------------------------------------------- //
+export function createPatch(
+  orig: Record<string, string>,
+  updated: Record<string, string>,
+  options: CreatePatchOptions = {}
+): string {
+  const patch: Patch = { actions: {} };
+
+  // A deleted file whose content reappears verbatim under a new path is
+  // expressed as a move rather than a delete/add pair.
+  const added = Object.keys(updated).filter(path => !(path in orig));
+  const moves = new Map<string, string>();
+  for (const path of Object.keys(orig)) {
+    if (path in updated) {
+      continue;
+    }
+    const target = added.find(
+      p => updated[p] === orig[path] && ![...moves.values()].includes(p)
+    );
+    if (target !== undefined) {
+      moves.set(path, target);
+    }
+  }
+
+  for (const [path, text] of Object.entries(orig)) {
+    const movePath = moves.get(path);
+    if (movePath !== undefined) {
+      patch.actions[path] = { type: ActionType.UPDATE, chunks: [], movePath };
+    } else if (!(path in updated)) {
+      patch.actions[path] = { type: ActionType.DELETE, chunks: [] };
+    } else if (updated[path] !== text) {
+      // Line ending and BOM differences are not expressible; the applier
+      // keeps the original file's.
+      const chunks = diffLines(splitLines(text), splitLines(updated[path]!));
+      if (chunks.length) {
+        patch.actions[path] = { type: ActionType.UPDATE, chunks };
+      }
+    }
+  }
+
+  const moved = [...moves.values()];
+  for (const path of added) {
+    if (!moved.includes(path)) {
+      patch.actions[path] = {
+        type: ActionType.ADD,
+        newFile: updated[path],
+        chunks: [],
+      };
+    }
+  }
+
+  return patchToText(patch, orig, options);
+}
+
+// --------------------------------------------------------------------------- //
+//  Commit → Patch
+// --------------------------------------------------------------------------- //
+export function commitToText(commit: Commit, options: CreatePatchOptions = {}): string {
+  /**
+   * Render a commit as patch text that applies to the files it was made from.
+   */
+  const patch: Patch = { actions: {} };
+  const orig: Record<string, string> = {};
+
+  for (const [path, change] of Object.entries(commit.changes)) {
+    if (change.type === ActionType.ADD) {
+      if (change.newContent === undefined) {
+        throw new DiffError(`ADD change for ${path} has no content`, { path });
+      }
+      patch.actions[path] = {
+        type: ActionType.ADD,
+        newFile: change.newContent,
+        chunks: [],
+        mode: change.mode,
+      };
+    } else if (change.type === ActionType.DELETE) {
+      orig[path] = change.oldContent ?? "";
+      patch.actions[path] = { type: ActionType.DELETE, chunks: [] };
+    } else if (change.type === ActionType.UPDATE) {
+      if (change.oldContent === undefined || change.newContent === undefined) {
+        throw new DiffError(`UPDATE change for ${path} is missing content`, { path });
+      }
+      orig[path] = change.oldContent;
+      patch.actions[path] = {
+        type: ActionType.UPDATE,
+        chunks: diffLines(splitLines(change.oldContent), splitLines(change.newContent)),
+        movePath: change.movePath,
+        mode: change.mode,
+      };
+    } else if (change.type === ActionType.COPY) {
+      if (
+        change.copyFrom === undefined ||
+        change.oldContent === undefined ||
+        change.newContent === undefined
+      ) {
+        throw new DiffError(`COPY change for ${path} is missing its source`, { path });
+      }
+      orig[change.copyFrom] = change.oldContent;
+      patch.actions[path] = {
+        type: ActionType.COPY,
+        chunks: diffLines(splitLines(change.oldContent), splitLines(change.newContent)),
+        copyFrom: change.copyFrom,
+        mode: change.mode,
+      };
+    }
+  }
+
+  return patchToText(patch, orig, options);
+}
+
+export function createUndoPatch(commit: Commit, options: CreatePatchOptions = {}): string {
+  /**
+   * Render patch text that reverts *commit* when applied to the files it
+   * produced.
+   */
+  return commitToText(invertCommit(commit), options);
+}
+
+// --------------------------------------------------------------------------- //
+//  Patch → text
+// --------------------------------------------------------------------------- //
+export function patchToText(
+  patch: Patch,
+  orig: Record<string, string>,
+  options: CreatePatchOptions = {}
+): string {
+  /**
+   * Render *patch* as canonical patch text against *orig*, the files it was
+   * parsed from. Context and removed lines are taken from *orig*, so
+   * `textToPatch` of the result yields the same commit.
+   */
+  const context = options.context ?? 3;
+  const scopeAnchors = options.scopeAnchors ?? true;
+  const out = ["*** Begin Patch"];
+
+  for (const [path, action] of Object.entries(patch.actions)) {
+    if (action.type === ActionType.ADD) {
+      out.push(`*** Add File: ${path}`);
+      if (action.mode) {
+        out.push(`*** Mode: ${action.mode}`);
+      }
+      for (const line of (action.newFile ?? "").split("\n")) {
+        out.push(`+${line}`);
+      }
+    } else if (action.type === ActionType.DELETE) {
+      out.push(`*** Delete File: ${path}`);
+    } else if (action.type === ActionType.UPDATE || action.type === ActionType.COPY) {
+      const source = action.type === ActionType.COPY ? action.copyFrom! : path;
+      if (!(source in orig)) {
+        throw new DiffError(`Update File Error - missing file: ${source}`, {
+          code: DiffErrorCode.MISSING_FILE,
+          path: source,
+        });
+      }
+      const lines = splitLines(orig[source]!);
+      const outside = action.chunks.find(
+        c => c.origIndex + c.delLines.length > lines.length
+      );
+      if (outside) {
+        throw new DiffError(
+          `${path}: chunk at ${outside.origIndex} exceeds file length`,
+          { code: DiffErrorCode.INVALID_CHUNK, path }
+        );
+      }
+      if (action.type === ActionType.COPY) {
+        out.push(`*** Copy File: ${source}`, `*** Copy to: ${path}`);
+      } else {
+        out.push(`*** Update File: ${path}`);
+        if (action.movePath) {
+          out.push(`*** Move to: ${action.movePath}`);
+        }
+      }
+      if (action.mode) {
+        out.push(`*** Mode: ${action.mode}`);
+      }
+      out.push(...renderUpdate(lines, action.chunks, context, scopeAnchors));
+    }
+  }
+
+  out.push("*** End Patch");
+  return out.join("\n");
+}
+
+function renderUpdate(
+  lines: string[],
+  chunks: Chunk[],
+  context: number,
+  scopeAnchors: boolean
+): string[] {
+  const out: string[] = [];
+  const lineIndex = new LineIndex(lines);
+  let index = 0; // where the parser resumes searching after each section
+
+  const changes = chunks.filter(c => c.delLines.length || c.insLines.length);
+  for (const group of groupChunks(changes, context)) {
+    const first = group[0]!;
+    const last = group[group.length - 1]!;
+    const end = Math.min(lines.length, last.origIndex + last.delLines.length + context);
+    const eof = end === lines.length;
+
+    // Widen the leading context until the section can only land where it
+    // belongs; reaching the previous section always makes it unambiguous.
+    let start = Math.max(index, first.origIndex - context);
+    let anchor = pickAnchor(lineIndex, index, start, end, eof, scopeAnchors);
+    while (anchor === undefined && start > index) {
+      start -= 1;
+      anchor = pickAnchor(lineIndex, index, start, end, eof, scopeAnchors);
+    }
+
+    out.push(anchor ? `@@ ${anchor}` : "@@");
+    let pos = start;
+    for (const chunk of group) {
+      for (; pos < chunk.origIndex; pos++) {
+        out.push(` ${lines[pos]}`);
+      }
+      for (; pos < chunk.origIndex + chunk.delLines.length; pos++) {
+        out.push(`-${lines[pos]}`);
+      }
+      out.push(...chunk.insLines.map(line => `+${line}`));
+    }
+    for (; pos < end; pos++) {
+      out.push(` ${lines[pos]}`);
+    }
+    if (eof) {
+      out.push("*** End of File");
+    }
+
+    index = end;
+  }
+
+  return out;
+}
+
+function pickAnchor(
+  lineIndex: LineIndex,
+  index: number,
+  start: number,
+  end: number,
+  eof: boolean,
+  scopeAnchors: boolean
+): string | undefined {
+  /**
+   * Choose the `@@` line for a section spanning lines[start, end). Returns ""
+   * for a bare `@@`, or undefined when no anchor makes the section resolve to
+   * *start* and more context is needed.
+   */
+  const lines = lineIndex.lines;
+  const old = lines.slice(start, end);
+  const resolves = (anchor: string) => {
+    let from = index;
+    if (anchor) {
+      const [anchorIndex] = findAnchor(lineIndex, anchor, index);
+      if (anchorIndex !== -1) {
+        from = anchorIndex;
+      }
+    }
+    return findContext(lineIndex, old, from, eof)[0] === start;
+  };
+
+  const scope = scopeAnchors ? findScope(lines, index, start, end) : undefined;
+  if (scope !== undefined && resolves(scope)) {
+    return scope;
+  }
+  if (resolves("")) {
+    return "";
+  }
+  for (let i = start - 1; i >= index; i--) {
+    if (lines[i]!.trim() && resolves(lines[i]!)) {
+      return lines[i];
+    }
+  }
+  return undefined;
+}
+
+function findScope(
+  lines: string[],
+  index: number,
+  start: number,
+  end: number
+): string | undefined {
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const first = lines.slice(start, end).find(line => line.trim());
+  if (first === undefined) {
+    return undefined;
+  }
+  const indent = indentOf(first);
+  for (let i = start - 1; i >= index; i--) {
+    const line = lines[i]!;
+    if (line.trim() && indentOf(line) < indent) {
+      return line;
+    }
+  }
+  return undefined;
+}
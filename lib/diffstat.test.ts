@@ -0,0 +1,97 @@
+import { describe, test, expect } from "bun:test";
+import { ActionType, type Commit } from "./apply-patch";
+import { formatDiffstat, summarizeCommit } from "./diffstat";
+
+const commit: Commit = {
+  changes: {
+    "gone.ts": { type: ActionType.DELETE, oldContent: "bye\n" },
+    "new.ts": { type: ActionType.ADD, newContent: "x\n", mode: "755" },
+    "src/a.ts": {
+      type: ActionType.UPDATE,
+      oldContent: "one\ntwo\nthree\n",
+      newContent: "one\nTWO\nthree\nfour",
+      movePath: "src/b.ts",
+    },
+  },
+};
+
+describe("diffstat", () => {
+  test("summarizes each change of a commit", () => {
+    const summary = summarizeCommit(commit);
+
+    expect(summary.insertions).toBe(3);
+    expect(summary.deletions).toBe(2);
+    expect(summary.files).toEqual([
+      { path: "gone.ts", type: ActionType.DELETE, insertions: 0, deletions: 1, hunks: 1 },
+      { path: "new.ts", type: ActionType.ADD, insertions: 1, deletions: 0, hunks: 1, mode: "755" },
+      {
+        path: "src/b.ts",
+        source: "src/a.ts",
+        type: ActionType.UPDATE,
+        insertions: 2,
+        deletions: 1,
+        hunks: 1,
+      },
+    ]);
+  });
+
+  test("counts hunks with the given context", () => {
+    const oldContent = "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n";
+    const newContent = "one\n2\n3\n4\n5\n6\n7\n8\n9\nten\n";
+    const spread: Commit = {
+      changes: { "n.txt": { type: ActionType.UPDATE, oldContent, newContent } },
+    };
+
+    expect(summarizeCommit(spread).files[0]!.hunks).toBe(2);
+    expect(summarizeCommit(spread, { context: 4 }).files[0]!.hunks).toBe(1);
+  });
+
+  test("formats like git diff --stat --summary", () => {
+    // The expected text is the output of `git diff --stat --summary -M`
+    // for the same change, without the rename similarity.
+    expect(formatDiffstat(summarizeCommit(commit))).toBe(
+      [
+        " gone.ts            | 1 -",
+        " new.ts             | 1 +",
+        " src/{a.ts => b.ts} | 3 ++-",
+        " 3 files changed, 3 insertions(+), 2 deletions(-)",
+        " delete mode 100644 gone.ts",
+        " create mode 100755 new.ts",
+        " rename src/{a.ts => b.ts}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("scales the graph to the width", () => {
+    const big = "x\n".repeat(200);
+    const text = formatDiffstat(
+      summarizeCommit({
+        changes: {
+          "big.txt": { type: ActionType.ADD, newContent: big },
+          "lib/small.txt": {
+            type: ActionType.UPDATE,
+            oldContent: "a\n",
+            newContent: "b\n",
+            mode: "755",
+            oldMode: "644",
+          },
+        },
+      }),
+      { width: 40 }
+    );
+
+    expect(text.split("\n")).toEqual([
+      ` big.txt       | 200 ${"+".repeat(19)}`,
+      " lib/small.txt |   2 +-",
+      " 2 files changed, 201 insertions(+), 1 deletion(-)",
+      " create mode 100644 big.txt",
+      " mode change 100644 => 100755 lib/small.txt",
+      "",
+    ]);
+  });
+
+  test("formats an empty commit as an empty string", () => {
+    expect(formatDiffstat(summarizeCommit({ changes: {} }))).toBe("");
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Per-file line counts for a commit, and their `git diff --stat` rendering.
+ */
+
+import { ActionType, type Commit } from "./apply-patch";
+import { diffLines, groupChunks } from "./line-diff";
+
+export interface FileStat {
+  /** Path after the change; the removed path for deletions. */
+  path: string;
+  /** Rename or copy source. */
+  source?: string;
+  type: ActionType;
+  insertions: number;
+  deletions: number;
+  hunks: number;
+  oldMode?: string;
+  mode?: string;
+}
+
+export interface CommitSummary {
+  files: FileStat[];
+  insertions: number;
+  deletions: number;
+}
+
+export interface DiffstatOptions {
+  /** Lines of context used to group changes into hunks (default 3). */
+  context?: number;
+}
+
+export interface FormatDiffstatOptions {
+  /** Total line width the graph is scaled to (default 80). */
+  width?: number;
+}
+
+// --------------------------------------------------------------------------- //
+//  Summary
+// --------------------------------------------------------------------------- //
+function statLines(text: string | undefined): string[] {
+  // Like git, a missing final newline makes the last line differ from the
+  // same line with one.
+  if (!text) {
+    return [];
+  }
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += "\n";
+  }
+  return lines;
+}
+
+export function summarizeCommit(commit: Commit, options: DiffstatOptions = {}): CommitSummary {
+  /**
+   * Count the lines each change in *commit* inserts and deletes, and the
+   * hunks a unified diff of it would have.
+   */
+  const context = options.context ?? 3;
+  const summary: CommitSummary = { files: [], insertions: 0, deletions: 0 };
+
+  for (const [key, change] of Object.entries(commit.changes)) {
+    const oldLines = change.type === ActionType.ADD ? [] : statLines(change.oldContent);
+    const newLines = change.type === ActionType.DELETE ? [] : statLines(change.newContent);
+    const chunks = diffLines(oldLines, newLines);
+    const stat: FileStat = {
+      path: change.type === ActionType.UPDATE ? change.movePath || key : key,
+      type: change.type,
+      insertions: chunks.reduce((sum, chunk) => sum + chunk.insLines.length, 0),
+      deletions: chunks.reduce((sum, chunk) => sum + chunk.delLines.length, 0),
+      hunks: groupChunks(chunks, context).length,
+    };
+    if (change.type === ActionType.COPY) {
+      stat.source = change.copyFrom;
+    } else if (stat.path !== key) {
+      stat.source = key;
+    }
+    if (change.oldMode !== undefined) {
+      stat.oldMode = change.oldMode;
+    }
+    if (change.mode !== undefined) {
+      stat.mode = change.mode;
+    }
+    summary.files.push(stat);
+    summary.insertions += stat.insertions;
+    summary.deletions += stat.deletions;
+  }
+
+  return summary;
+}
+
+// --------------------------------------------------------------------------- //
+//  Formatting
+// --------------------------------------------------------------------------- //
+function renameName(source: string, path: string): string {
+  /**
+   * "src/{old => new}/file.ts": directories shared by both paths are only
+   * written once.
+   */
+  let prefix = 0;
+  for (let i = 0; i < Math.min(source.length, path.length) && source[i] === path[i]; i++) {
+    if (source[i] === "/") {
+      prefix = i + 1;
+    }
+  }
+  let suffix = 0;
+  for (
+    let i = 1;
+    i <= Math.min(source.length, path.length) - prefix &&
+    source[source.length - i] === path[path.length - i];
+    i++
+  ) {
+    if (source[source.length - i] === "/") {
+      suffix = i;
+    }
+  }
+  const from = source.slice(prefix, source.length - suffix);
+  const to = path.slice(prefix, path.length - suffix);
+  if (!prefix && !suffix) {
+    return `${from} => ${to}`;
+  }
+  return `${source.slice(0, prefix)}{${from} => ${to}}${path.slice(path.length - suffix)}`;
+}
+
+function scale(count: number, width: number, max: number): number {
+  return count ? 1 + Math.floor((count * (width - 1)) / max) : 0;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+export function formatDiffstat(
+  summary: CommitSummary,
+  options: FormatDiffstatOptions = {}
+): string {
+  /**
+   * Render *summary* like `git diff --stat --summary`: one line per file with
+   * a +/- graph, the totals, then the created, deleted, renamed and copied
+   * files and mode changes.
+   */
+  if (!summary.files.length) {
+    return "";
+  }
+  const width = options.width ?? 80;
+  const names = summary.files.map(stat =>
+    stat.source !== undefined ? renameName(stat.source, stat.path) : stat.path
+  );
+  const nameWidth = Math.max(...names.map(name => name.length));
+  const max = Math.max(...summary.files.map(stat => stat.insertions + stat.deletions));
+  const countWidth = String(max).length;
+  const graphWidth = Math.max(width - nameWidth - countWidth - 5, 10);
+
+  const out = summary.files.map((stat, i) => {
+    let add = stat.insertions;
+    let del = stat.deletions;
+    if (max > graphWidth) {
+      let total = scale(add + del, graphWidth, max);
+      if (total < 2 && add && del) {
+        total = 2;
+      }
+      if (add < del) {
+        add = scale(add, graphWidth, max);
+        del = total - add;
+      } else {
+        del = scale(del, graphWidth, max);
+        add = total - del;
+      }
+    }
+    const count = String(stat.insertions + stat.deletions).padStart(countWidth);
+    const graph = "+".repeat(add) + "-".repeat(del);
+    return ` ${names[i]!.padEnd(nameWidth)} | ${count}${graph ? ` ${graph}` : ""}`;
+  });
+
+  let totals = ` ${plural(summary.files.length, "file")} changed`;
+  if (summary.insertions || !summary.deletions) {
+    totals += `, ${plural(summary.insertions, "insertion")}(+)`;
+  }
+  if (summary.deletions || !summary.insertions) {
+    totals += `, ${plural(summary.deletions, "deletion")}(-)`;
+  }
+  out.push(totals);
+
+  summary.files.forEach((stat, i) => {
+    if (stat.type === ActionType.ADD) {
+      out.push(` create mode 100${stat.mode ?? "644"} ${stat.path}`);
+    } else if (stat.type === ActionType.DELETE) {
+      out.push(` delete mode 100${stat.oldMode ?? "644"} ${stat.path}`);
+    } else {
+      if (stat.type === ActionType.COPY) {
+        out.push(` copy ${names[i]}`);
+      } else if (stat.source !== undefined) {
+        out.push(` rename ${names[i]}`);
+      }
+      if (stat.mode && stat.mode !== stat.oldMode) {
+        out.push(` mode change 100${stat.oldMode ?? "644"} => 100${stat.mode} ${stat.path}`);
+      }
+    }
+  });
+
+  return `${out.join("\n")}\n`;
+}
@@ -9,15 +9,143 @@ export {
   type Chunk,
   type PatchAction,
   type Patch,
+  MatchTier,
+  type AnchorMatch,
+  type IndentAdjustment,
+  type HunkMatch,
+  type ParseOptions,
+  type ParseResult,
+  RepairKind,
+  type Repair,
+  type CheckResult,
+  type Reject,
+  type PartialResult,
   DiffError,
+  DiffErrorCode,
+  AmbiguousContextError,
+  PathPolicyError,
+  type DiffErrorDetails,
+  type ContextCandidate,
+  parsePatch,
+  checkPatch,
   textToPatch,
   patchToCommit,
   applyCommit,
+  applyCommitToFiles,
+  invertCommit,
   processPatch,
+  processPatchPartial,
   identifyFilesNeeded,
   identifyFilesAdded,
 } from './apply-patch';
 
+/**
+ * Path safety for patch targets
+ */
+export {
+  checkPatchPath,
+  normalizePatchPath,
+  type PathPolicy,
+  type PathRule,
+} from './path-policy';
+
+/**
+ * Patch generation
+ */
+export {
+  createPatch,
+  commitToText,
+  createUndoPatch,
+  patchToText,
+  type CreatePatchOptions,
+} from './create-patch';
+
+/**
+ * Fluent patch construction
+ */
+export {
+  PatchBuilder,
+  FileBuilder,
+  type BuiltPatch,
+} from './patch-builder';
+
+/**
+ * Three-way merge onto drifted files
+ */
+export {
+  mergePatch,
+  type MergeConflict,
+  type MergeResult,
+} from './merge';
+
+/**
+ * Incremental parsing of streamed patch text
+ */
+export {
+  PatchStreamParser,
+  type PatchStreamEvent,
+} from './stream-parser';
+
+/**
+ * Series of patches applied on top of each other
+ */
+export {
+  applyPatchStack,
+  squashStack,
+  PatchStackError,
+  type LineOwners,
+  type StackResult,
+} from './patch-stack';
+
+/**
+ * Unified diff (git diff) interop
+ */
+export {
+  parseUnifiedDiff,
+  commitToUnifiedDiff,
+  type UnifiedDiffOptions,
+} from './unified-diff';
+
+/**
+ * SEARCH/REPLACE blocks and format detection
+ */
+export { parseSearchReplace } from './search-replace';
+export {
+  PatchFormat,
+  detectPatchFormat,
+  parseAnyPatch,
+  processAnyPatch,
+} from './patch-format';
+
+/**
+ * Per-file change statistics
+ */
+export {
+  summarizeCommit,
+  formatDiffstat,
+  type CommitSummary,
+  type FileStat,
+  type DiffstatOptions,
+  type FormatDiffstatOptions,
+} from './diffstat';
+
+/**
+ * In-memory files with undo history
+ */
+export {
+  VirtualWorkspace,
+} from './virtual-workspace';
+
+/**
+ * Applying patches to a directory on disk
+ */
+export {
+  applyPatchToDir,
+  applyCommitToDir,
+  readWorkspaceFiles,
+  type RestoreFailure,
+} from './workspace';
+
 /**
  * Partial editing features powered by LLM
  */
@@ -0,0 +1,82 @@
+import { describe, test, expect } from "bun:test";
+import { diffLines, groupChunks } from "./line-diff";
+
+describe("line-diff", () => {
+  describe("diffLines", () => {
+    test("returns no chunks for identical input", () => {
+      expect(diffLines(["a", "b"], ["a", "b"])).toEqual([]);
+    });
+
+    test("reports replacements, insertions and deletions", () => {
+      const chunks = diffLines(
+        ["a", "b", "c", "d", "e"],
+        ["a", "B", "c", "e", "f"]
+      );
+      expect(chunks).toEqual([
+        { origIndex: 1, delLines: ["b"], insLines: ["B"] },
+        { origIndex: 3, delLines: ["d"], insLines: [] },
+        { origIndex: 5, delLines: [], insLines: ["f"] },
+      ]);
+    });
+
+    test("handles empty sides", () => {
+      expect(diffLines([], ["x"])).toEqual([
+        { origIndex: 0, delLines: [], insLines: ["x"] },
+      ]);
+      expect(diffLines(["x"], [])).toEqual([
+        { origIndex: 0, delLines: ["x"], insLines: [] },
+      ]);
+    });
+
+    test("finds a minimal edit", () => {
+      // Small deterministic generator so failures can be reproduced.
+      let seed = 7;
+      const next = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+      const sample = () => Array.from({ length: Math.floor(next() * 30) }, () => "abcd"[Math.floor(next() * 4)]!);
+      const lcs = (a: string[], b: string[]) => {
+        let row = new Array<number>(b.length + 1).fill(0);
+        for (const line of a) {
+          const nextRow = [0];
+          b.forEach((other, j) => nextRow.push(line === other ? row[j]! + 1 : Math.max(row[j + 1]!, nextRow[j]!)));
+          row = nextRow;
+        }
+        return row[b.length]!;
+      };
+
+      for (let round = 0; round < 300; round++) {
+        const a = sample();
+        const b = sample();
+        const chunks = diffLines(a, b);
+        const edits = chunks.reduce((sum, c) => sum + c.delLines.length + c.insLines.length, 0);
+        expect(edits).toBe(a.length + b.length - 2 * lcs(a, b));
+
+        const result = [...a];
+        for (const chunk of [...chunks].reverse()) {
+          expect(result.slice(chunk.origIndex, chunk.origIndex + chunk.delLines.length)).toEqual(chunk.delLines);
+          result.splice(chunk.origIndex, chunk.delLines.length, ...chunk.insLines);
+        }
+        expect(result).toEqual(b);
+      }
+    });
+
+    test("handles large rewrites", () => {
+      const a = Array.from({ length: 20_000 }, (_, i) => `old ${i}`);
+      const b = a.map((line, i) => (i % 1000 === 0 ? line : `new ${i}`));
+
+      const chunks = diffLines(a, b);
+      expect(chunks).toHaveLength(20);
+      expect(chunks[0]).toMatchObject({ origIndex: 1, delLines: a.slice(1, 1000) });
+    });
+  });
+
+  describe("groupChunks", () => {
+    test("groups chunks whose context would overlap", () => {
+      const chunks = diffLines(
+        ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"],
+        ["1", "two", "3", "4", "5", "6", "7", "8", "nine", "10"]
+      );
+      expect(groupChunks(chunks, 3)).toHaveLength(1);
+      expect(groupChunks(chunks, 2)).toHaveLength(2);
+    });
+  });
+});
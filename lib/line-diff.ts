@@ -0,0 +1,219 @@
+/**
+ * Line-level diffing (Myers' O(ND) algorithm) producing the same `Chunk`
+ * objects the patch parser emits.
+ */
+
+import type { Chunk } from "./apply-patch";
+
+// --------------------------------------------------------------------------- //
+//  Edit script
+// --------------------------------------------------------------------------- //
+type EditOp = "equal" | "delete" | "insert";
+
+function middleSnake(
+  a: string[],
+  aLo: number,
+  aHi: number,
+  b: string[],
+  bLo: number,
+  bHi: number,
+  vf: Int32Array,
+  vb: Int32Array,
+  offset: number
+): [number, number, number, number] {
+  /**
+   * Find the middle snake of the shortest edit between `a[aLo:aHi]` and
+   * `b[bLo:bHi]` by searching from both ends at once, and return its start
+   * and end as `[x0, y0, x1, y1]`. `vf` and `vb` hold the furthest x reached
+   * on each diagonal forwards and backwards (counted from the ends).
+   */
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  vf[offset + 1] = 0;
+  vb[offset + 1] = 0;
+
+  for (let d = 0; d <= Math.ceil((n + m) / 2); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && vf[offset + k - 1]! < vf[offset + k + 1]!)
+          ? vf[offset + k + 1]!
+          : vf[offset + k - 1]! + 1;
+      let y = x - k;
+      const [x0, y0] = [x, y];
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x += 1;
+        y += 1;
+      }
+      vf[offset + k] = x;
+      // The backward search has taken d - 1 steps; the paths meet if they overlap.
+      const back = delta - k;
+      if (odd && back >= -(d - 1) && back <= d - 1 && x + vb[offset + back]! >= n) {
+        return [aLo + x0, bLo + y0, aLo + x, bLo + y];
+      }
+    }
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && vb[offset + k - 1]! < vb[offset + k + 1]!)
+          ? vb[offset + k + 1]!
+          : vb[offset + k - 1]! + 1;
+      let y = x - k;
+      const [x0, y0] = [x, y];
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x += 1;
+        y += 1;
+      }
+      vb[offset + k] = x;
+      const forward = delta - k;
+      if (!odd && forward >= -d && forward <= d && x + vf[offset + forward]! >= n) {
+        return [aHi - x, bHi - y, aHi - x0, bHi - y0];
+      }
+    }
+  }
+  throw new Error("middleSnake: no overlap found");
+}
+
+function shortestEdit(a: string[], b: string[]): EditOp[] {
+  /**
+   * Myers' algorithm in linear space: split at the middle snake and recurse
+   * on both halves, so memory stays proportional to the input.
+   */
+  // Lines found on one side only are always deleted or inserted; leaving
+  // them out of the search keeps rewrites with few shared lines fast.
+  const inA = new Set(a);
+  const inB = new Set(b);
+  const a2 = a.filter(line => inB.has(line));
+  const b2 = b.filter(line => inA.has(line));
+
+  const matched: EditOp[] = [];
+  const offset = Math.ceil((a2.length + b2.length) / 2) + 1;
+  const vf = new Int32Array(2 * offset + 1);
+  const vb = new Int32Array(2 * offset + 1);
+  const repeat = (op: EditOp, count: number) => {
+    for (let i = 0; i < count; i++) {
+      matched.push(op);
+    }
+  };
+
+  const edit = (aLo: number, aHi: number, bLo: number, bHi: number): void => {
+    let prefix = 0;
+    while (aLo + prefix < aHi && bLo + prefix < bHi && a2[aLo + prefix] === b2[bLo + prefix]) {
+      prefix += 1;
+    }
+    aLo += prefix;
+    bLo += prefix;
+    repeat("equal", prefix);
+    let suffix = 0;
+    while (aHi - suffix > aLo && bHi - suffix > bLo && a2[aHi - 1 - suffix] === b2[bHi - 1 - suffix]) {
+      suffix += 1;
+    }
+    aHi -= suffix;
+    bHi -= suffix;
+
+    if (aLo === aHi || bLo === bHi) {
+      repeat("delete", aHi - aLo);
+      repeat("insert", bHi - bLo);
+    } else {
+      const [x0, y0, x1, y1] = middleSnake(a2, aLo, aHi, b2, bLo, bHi, vf, vb, offset);
+      edit(aLo, x0, bLo, y0);
+      repeat("equal", x1 - x0);
+      edit(x1, aHi, y1, bHi);
+    }
+    repeat("equal", suffix);
+  };
+  edit(0, a2.length, 0, b2.length);
+
+  // Put the one-sided lines back in front of the next shared line.
+  const ops: EditOp[] = [];
+  let i = 0;
+  let j = 0;
+  const skipOneSided = () => {
+    for (; i < a.length && !inB.has(a[i]!); i++) {
+      ops.push("delete");
+    }
+    for (; j < b.length && !inA.has(b[j]!); j++) {
+      ops.push("insert");
+    }
+  };
+  for (const op of matched) {
+    skipOneSided();
+    ops.push(op);
+    i += op === "insert" ? 0 : 1;
+    j += op === "delete" ? 0 : 1;
+  }
+  skipOneSided();
+  return ops;
+}
+
+// --------------------------------------------------------------------------- //
+//  Public helpers
+// --------------------------------------------------------------------------- //
+export function diffLines(a: string[], b: string[]): Chunk[] {
+  /**
+   * Compute the changes turning *a* into *b*. Each chunk's `origIndex` points
+   * into *a*; adjacent deletions and insertions are merged into one chunk.
+   */
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  const chunks: Chunk[] = [];
+  let current: Chunk | undefined;
+  let i = 0;
+  let j = 0;
+
+  for (const op of shortestEdit(aMid, bMid)) {
+    if (op === "equal") {
+      current = undefined;
+      i += 1;
+      j += 1;
+      continue;
+    }
+    if (!current) {
+      current = { origIndex: prefix + i, delLines: [], insLines: [] };
+      chunks.push(current);
+    }
+    if (op === "delete") {
+      current.delLines.push(aMid[i]!);
+      i += 1;
+    } else {
+      current.insLines.push(bMid[j]!);
+      j += 1;
+    }
+  }
+
+  return chunks;
+}
+
+export function groupChunks(chunks: Chunk[], context: number): Chunk[][] {
+  /**
+   * Group chunks into hunks: chunks separated by no more than 2 * *context*
+   * unchanged lines share their surrounding context and end up together.
+   */
+  const groups: Chunk[][] = [];
+  let end = -Infinity;
+
+  for (const chunk of chunks) {
+    const last = groups[groups.length - 1];
+    if (last && chunk.origIndex - end <= 2 * context) {
+      last.push(chunk);
+    } else {
+      groups.push([chunk]);
+    }
+    end = chunk.origIndex + chunk.delLines.length;
+  }
+
+  return groups;
+}
@@ -0,0 +1,60 @@
+import { describe, test, expect } from "bun:test";
+import { LineIndex, type LineNorm } from "./line-index";
+
+const NORMALIZE: Record<LineNorm, (line: string) => string> = {
+  exact: line => line,
+  trailing: line => line.replace(/\s+$/, ""),
+  trimmed: line => line.trim(),
+};
+
+function scan(lines: string[], context: string[], start: number, norm: LineNorm): number[] {
+  const f = NORMALIZE[norm];
+  const found: number[] = [];
+  for (let i = start; i <= lines.length - context.length; i++) {
+    if (context.every((line, k) => f(lines[i + k]!) === f(line))) {
+      found.push(i);
+    }
+  }
+  return found;
+}
+
+// Small deterministic generator so failures can be reproduced.
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+}
+
+describe("line-index", () => {
+  test("finds the same positions as a linear scan", () => {
+    const next = random(42);
+    const pick = <T>(items: T[]) => items[Math.floor(next() * items.length)]!;
+    const words = ["a", "b", "c", "", "  a", "a  ", "\tb", " c "];
+
+    for (let round = 0; round < 200; round++) {
+      const lines = Array.from({ length: 1 + Math.floor(next() * 40) }, () => pick(words));
+      const index = new LineIndex(lines);
+      const context = Array.from({ length: 1 + Math.floor(next() * 4) }, () => pick(words));
+      const start = Math.floor(next() * lines.length);
+
+      for (const norm of ["exact", "trailing", "trimmed"] as const) {
+        const expected = scan(lines, context, start, norm);
+        expect(index.findAll(context, start, norm)).toEqual(expected);
+        expect(index.find(context, start, norm)).toBe(expected[0] ?? -1);
+      }
+    }
+  });
+
+  test("looks up single lines around a position", () => {
+    const index = new LineIndex(["x", " y", "x", "y", "x"]);
+
+    expect(index.firstAt("x", "exact", 1)).toBe(2);
+    expect(index.firstAt("y", "exact", 0)).toBe(3);
+    expect(index.firstAt("y", "trimmed", 0)).toBe(1);
+    expect(index.firstAt("z", "exact", 0)).toBe(-1);
+    expect(index.lastBefore("x", "exact", 0, 4)).toBe(2);
+    expect(index.lastBefore("x", "exact", 3, 4)).toBe(-1);
+    expect(index.lastBefore("y", "trimmed", 0, 3)).toBe(1);
+  });
+});
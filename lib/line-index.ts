@@ -0,0 +1,142 @@
+/**
+ * Hashed index of a file's lines, so that context and anchors can be located
+ * without rescanning (and re-normalizing) the whole file for every hunk.
+ */
+
+/** How lines are compared: verbatim, ignoring trailing or all surrounding whitespace. */
+export type LineNorm = "exact" | "trailing" | "trimmed";
+
+const NORMALIZE: Record<LineNorm, (line: string) => string> = {
+  exact: line => line,
+  trailing: line => line.replace(/\s+$/, ""),
+  trimmed: line => line.trim(),
+};
+
+function lowerBound(sorted: number[], value: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid]! < value) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+export class LineIndex {
+  public readonly lines: string[];
+  // Built on first use: most files are only ever searched verbatim.
+  private normalized = new Map<LineNorm, string[]>();
+  private positions = new Map<LineNorm, Map<string, number[]>>();
+
+  constructor(lines: string[]) {
+    this.lines = lines;
+  }
+
+  get length(): number {
+    return this.lines.length;
+  }
+
+  public normalize(norm: LineNorm): string[] {
+    let lines = this.normalized.get(norm);
+    if (!lines) {
+      lines = norm === "exact" ? this.lines : this.lines.map(NORMALIZE[norm]);
+      this.normalized.set(norm, lines);
+    }
+    return lines;
+  }
+
+  public positionsOf(line: string, norm: LineNorm): number[] {
+    /**
+     * Sorted indices of the lines equal to *line* once both are normalized.
+     */
+    let map = this.positions.get(norm);
+    if (!map) {
+      map = new Map();
+      this.normalize(norm).forEach((text, i) => {
+        const list = map!.get(text);
+        if (list) {
+          list.push(i);
+        } else {
+          map!.set(text, [i]);
+        }
+      });
+      this.positions.set(norm, map);
+    }
+    return map.get(NORMALIZE[norm](line)) ?? [];
+  }
+
+  public firstAt(line: string, norm: LineNorm, from: number): number {
+    /**
+     * First index at or after *from* holding *line*, or -1.
+     */
+    const list = this.positionsOf(line, norm);
+    const k = lowerBound(list, from);
+    return k < list.length ? list[k]! : -1;
+  }
+
+  public lastBefore(line: string, norm: LineNorm, from: number, to: number): number {
+    /**
+     * Last index in [*from*, *to*) holding *line*, or -1.
+     */
+    const list = this.positionsOf(line, norm);
+    const k = lowerBound(list, to) - 1;
+    return k >= 0 && list[k]! >= from ? list[k]! : -1;
+  }
+
+  public find(context: string[], start: number, norm: LineNorm): number {
+    /**
+     * First index at or after *start* where *context* matches, or -1. Only
+     * positions of the context's rarest line are tried.
+     */
+    return this._matches(context, start, norm, true)[0] ?? -1;
+  }
+
+  public findAll(context: string[], start: number, norm: LineNorm): number[] {
+    /**
+     * Every index at or after *start* where *context* matches.
+     */
+    return this._matches(context, start, norm, false);
+  }
+
+  private _matches(context: string[], start: number, norm: LineNorm, first: boolean): number[] {
+    const limit = this.lines.length - context.length;
+    if (!context.length) {
+      const all: number[] = [];
+      for (let i = start; i <= limit && !(first && all.length); i++) {
+        all.push(i);
+      }
+      return all;
+    }
+
+    const wanted = context.map(NORMALIZE[norm]);
+    let pivot = 0;
+    let candidates = this.positionsOf(context[0]!, norm);
+    for (let k = 1; k < context.length && candidates.length; k++) {
+      const list = this.positionsOf(context[k]!, norm);
+      if (list.length < candidates.length) {
+        pivot = k;
+        candidates = list;
+      }
+    }
+
+    const lines = this.normalize(norm);
+    const found: number[] = [];
+    for (let j = lowerBound(candidates, start + pivot); j < candidates.length; j++) {
+      const i = candidates[j]! - pivot;
+      if (i > limit) {
+        break;
+      }
+      if (wanted.every((line, k) => lines[i + k] === line)) {
+        found.push(i);
+        if (first) {
+          break;
+        }
+      }
+    }
+    return found;
+  }
+}
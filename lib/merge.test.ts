@@ -0,0 +1,153 @@
+import { describe, test, expect } from "bun:test";
+import { mergePatch } from "./merge";
+
+describe("merge", () => {
+  describe("mergePatch", () => {
+    const base: Record<string, string> = {
+      "src/file.ts": "one\ntwo\nthree\nfour\nfive\nsix\nseven",
+    };
+
+    test("rebases hunks onto a file that drifted", () => {
+      const current = {
+        "src/file.ts": "zero\none\ntwo\nthree\nfour\nfive\nsix\nSEVEN",
+      };
+      const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+ two
+-three
++THREE
+ four
+*** End Patch`;
+
+      const result = mergePatch(patchText, base, current);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.files["src/file.ts"]).toBe(
+        "zero\none\ntwo\nTHREE\nfour\nfive\nsix\nSEVEN"
+      );
+    });
+
+    test("writes conflict markers where changes overlap", () => {
+      const current = {
+        "src/file.ts": "one\ntwo\n3\nfour\nfive\nsix\nseven",
+      };
+      const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+ two
+-three
++THREE
+ four
+@@
+ six
+-seven
++SEVEN
+*** End Patch`;
+
+      const result = mergePatch(patchText, base, current);
+
+      expect(result.files["src/file.ts"]).toBe(
+        [
+          "one",
+          "two",
+          "<<<<<<< current",
+          "3",
+          "=======",
+          "THREE",
+          ">>>>>>> patch",
+          "four",
+          "five",
+          "six",
+          "SEVEN",
+        ].join("\n")
+      );
+      expect(result.conflicts).toEqual([
+        {
+          path: "src/file.ts",
+          line: 3,
+          base: ["three"],
+          current: ["3"],
+          patch: ["THREE"],
+        },
+      ]);
+    });
+
+    test("accepts identical edits on both sides", () => {
+      const current = {
+        "src/file.ts": "one\ntwo\nTHREE\nfour\nfive\nsix\nseven",
+      };
+      const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+ two
+-three
++THREE
+*** End Patch`;
+
+      const result = mergePatch(patchText, base, current);
+      expect(result.conflicts).toEqual([]);
+      expect(result.files["src/file.ts"]).toBe(current["src/file.ts"]);
+    });
+
+    test("keeps a deleted file that was edited meanwhile as a conflict", () => {
+      const current = { "src/file.ts": "edited" };
+      const patchText = `*** Begin Patch
+*** Delete File: src/file.ts
+*** End Patch`;
+
+      const result = mergePatch(patchText, base, current);
+      expect(result.files["src/file.ts"]).toBe(
+        "<<<<<<< current\nedited\n=======\n>>>>>>> patch"
+      );
+      expect(result.conflicts).toHaveLength(1);
+    });
+
+    test("merges into a file whose line endings changed", () => {
+      const current = {
+        "src/file.ts": `\uFEFF${base["src/file.ts"]!.replaceAll("\n", "\r\n")}\r\n`,
+      };
+      const patchText = `*** Begin Patch
+*** Update File: src/file.ts
+ two
+-three
++THREE
+ four
+*** End Patch`;
+
+      const result = mergePatch(patchText, base, current);
+      expect(result.conflicts).toEqual([]);
+      expect(result.files["src/file.ts"]).toBe(current["src/file.ts"]!.replace("three", "THREE"));
+    });
+
+    test("keeps the final newline of a deleted file's conflict", () => {
+      const withNewline = { "src/file.ts": `${base["src/file.ts"]}\n` };
+      const current = { "src/file.ts": withNewline["src/file.ts"]!.replace("two", "2") };
+      const patchText = `*** Begin Patch
+*** Delete File: src/file.ts
+*** End Patch`;
+
+      const result = mergePatch(patchText, withNewline, current);
+      expect(result.files["src/file.ts"]).toBe(
+        "<<<<<<< current\none\n2\nthree\nfour\nfive\nsix\nseven\n=======\n>>>>>>> patch\n"
+      );
+      expect(result.conflicts).toHaveLength(1);
+    });
+
+    test("copies the current source with the patch's edits", () => {
+      const current = {
+        "src/file.ts": "zero\none\ntwo\nthree\nfour\nfive\nsix\nseven",
+      };
+      const patchText = `*** Begin Patch
+*** Copy File: src/file.ts
+*** Copy to: src/copy.ts
+ six
+-seven
++SEVEN
+*** End Patch`;
+
+      const result = mergePatch(patchText, base, current);
+      expect(result.conflicts).toEqual([]);
+      expect(result.files["src/copy.ts"]).toBe(
+        "zero\none\ntwo\nthree\nfour\nfive\nsix\nSEVEN"
+      );
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Three-way merge of a patch onto files that drifted since the patch was
+ * generated. Each change is rebased from the base content onto the current
+ * content; overlapping edits are written out as git-style conflict markers.
+ */
+
+import {
+  ActionType,
+  DiffError,
+  DiffErrorCode,
+  patchToCommit,
+  splitLines,
+  textToPatch,
+  type Chunk,
+  type ParseOptions,
+} from "./apply-patch";
+import { diffLines } from "./line-diff";
+
+export interface MergeConflict {
+  path: string;
+  /** 1-based line of the `<<<<<<<` marker in the merged file. */
+  line: number;
+  base: string[];
+  current: string[];
+  patch: string[];
+}
+
+export interface MergeResult {
+  files: Record<string, string>;
+  conflicts: MergeConflict[];
+}
+
+// --------------------------------------------------------------------------- //
+//  Line-level three-way merge
+// --------------------------------------------------------------------------- //
+interface SideChunk extends Chunk {
+  side: "current" | "patch";
+}
+
+function applyRange(base: string[], lo: number, hi: number, chunks: Chunk[]): string[] {
+  const out: string[] = [];
+  let pos = lo;
+  for (const chunk of chunks) {
+    out.push(...base.slice(pos, chunk.origIndex), ...chunk.insLines);
+    pos = chunk.origIndex + chunk.delLines.length;
+  }
+  out.push(...base.slice(pos, hi));
+  return out;
+}
+
+function arraysEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+export function mergeLines(
+  path: string,
+  base: string[],
+  current: string[],
+  patched: string[]
+): [string[], MergeConflict[]] {
+  /**
+   * Merge the changes base → current and base → patched. Changes touching the
+   * same base lines (or inserting at the same point) conflict unless both
+   * sides made the identical edit.
+   */
+  const chunks: SideChunk[] = [
+    ...diffLines(base, current).map(c => ({ ...c, side: "current" as const })),
+    ...diffLines(base, patched).map(c => ({ ...c, side: "patch" as const })),
+  ].sort((a, b) => a.origIndex - b.origIndex || (a.side === "current" ? -1 : 1));
+
+  const out: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let pos = 0;
+  let i = 0;
+
+  while (i < chunks.length) {
+    const cluster = [chunks[i]!];
+    const lo = chunks[i]!.origIndex;
+    let hi = lo + chunks[i]!.delLines.length;
+    i += 1;
+    while (i < chunks.length && (chunks[i]!.origIndex < hi || chunks[i]!.origIndex === lo)) {
+      hi = Math.max(hi, chunks[i]!.origIndex + chunks[i]!.delLines.length);
+      cluster.push(chunks[i]!);
+      i += 1;
+    }
+
+    out.push(...base.slice(pos, lo));
+    const ours = cluster.filter(c => c.side === "current");
+    const theirs = cluster.filter(c => c.side === "patch");
+    const currentLines = applyRange(base, lo, hi, ours);
+    const patchLines = applyRange(base, lo, hi, theirs);
+
+    if (!ours.length) {
+      out.push(...patchLines);
+    } else if (!theirs.length || arraysEqual(currentLines, patchLines)) {
+      out.push(...currentLines);
+    } else {
+      conflicts.push({
+        path,
+        line: out.length + 1,
+        base: base.slice(lo, hi),
+        current: currentLines,
+        patch: patchLines,
+      });
+      out.push(
+        "<<<<<<< current",
+        ...currentLines,
+        "=======",
+        ...patchLines,
+        ">>>>>>> patch"
+      );
+    }
+    pos = hi;
+  }
+
+  out.push(...base.slice(pos));
+  return [out, conflicts];
+}
+
+// --------------------------------------------------------------------------- //
+//  Patch merge
+// --------------------------------------------------------------------------- //
+interface TextLayout {
+  /** Lines without terminators, BOM or a final empty line. */
+  lines: string[];
+  bom: string;
+  eol: string;
+  newline: boolean;
+}
+
+function splitText(text: string): TextLayout {
+  const lines = splitLines(text);
+  const newline = lines.length > 1 && lines[lines.length - 1] === "";
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  const crlf = text.split("\r\n").length - 1;
+  const lf = text.split("\n").length - 1;
+  return {
+    lines,
+    bom: text.startsWith("\uFEFF") ? "\uFEFF" : "",
+    eol: crlf > lf - crlf ? "\r\n" : "\n",
+    newline,
+  };
+}
+
+function joinText(lines: string[], base: TextLayout, current: TextLayout, patch?: TextLayout): string {
+  /**
+   * Join merged *lines* in the current file's layout, except where the patch
+   * changed the BOM, line endings or final newline itself.
+   */
+  const pick = <K extends "bom" | "eol" | "newline">(key: K): TextLayout[K] =>
+    patch && patch[key] !== base[key] ? patch[key] : current[key];
+  const eol = pick("eol");
+  const text = lines.join(eol);
+  return pick("bom") + text + (pick("newline") && lines.length ? eol : "");
+}
+
+export function mergePatch(
+  text: string,
+  base: Record<string, string>,
+  current: Record<string, string>,
+  options: ParseOptions = {}
+): MergeResult {
+  /**
+   * Apply a patch generated against *base* to *current*. Like `processPatch`,
+   * the result only holds the files the patch touches (deleted files are
+   * left out).
+   */
+  const [patch] = textToPatch(text, base, options);
+  const commit = patchToCommit(patch, base);
+  const files: Record<string, string> = {};
+  const conflicts: MergeConflict[] = [];
+
+  // Lines are merged without their terminators, BOM and final newline, so a
+  // file whose line endings changed does not conflict as a whole.
+  const merge = (
+    path: string,
+    baseText: string,
+    currentText: string,
+    patchText: string | undefined
+  ) => {
+    const [baseLayout, currentLayout] = [splitText(baseText), splitText(currentText)];
+    const patchLayout = patchText === undefined ? undefined : splitText(patchText);
+    const [lines, found] = mergeLines(
+      path,
+      baseLayout.lines,
+      currentLayout.lines,
+      patchLayout?.lines ?? []
+    );
+    files[path] = joinText(lines, baseLayout, currentLayout, patchLayout);
+    conflicts.push(...found);
+  };
+
+  for (const [path, change] of Object.entries(commit.changes)) {
+    const existing = current[path];
+    if (change.type === ActionType.ADD) {
+      if (existing === undefined || existing === change.newContent) {
+        files[path] = change.newContent!;
+      } else {
+        merge(path, "", existing, change.newContent!);
+      }
+    } else if (change.type === ActionType.DELETE) {
+      if (existing !== undefined && existing !== change.oldContent) {
+        // Deleting a file that has since been edited: keep the edits, marked.
+        merge(path, change.oldContent!, existing, undefined);
+      }
+    } else if (change.type === ActionType.COPY) {
+      const source = current[change.copyFrom!];
+      if (existing !== undefined && existing !== change.newContent) {
+        merge(path, "", existing, change.newContent!);
+      } else if (existing !== undefined || source === undefined) {
+        files[path] = change.newContent!;
+      } else {
+        // Copy the current source, with the patch's edits to the copy.
+        merge(path, change.oldContent!, source, change.newContent!);
+      }
+    } else if (change.type === ActionType.UPDATE) {
+      if (existing === undefined) {
+        throw new DiffError(`Merge Error - missing file: ${path}`, {
+          code: DiffErrorCode.MISSING_FILE,
+          path,
+        });
+      }
+      merge(change.movePath || path, change.oldContent!, existing, change.newContent!);
+    }
+  }
+
+  return { files, conflicts };
+}
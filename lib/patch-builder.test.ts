@@ -0,0 +1,142 @@
+import { describe, test, expect } from "bun:test";
+import {
+  ActionType,
+  AmbiguousContextError,
+  DiffError,
+  DiffErrorCode,
+  patchToCommit,
+  processPatch,
+  textToPatch,
+} from "./apply-patch";
+import { PatchBuilder } from "./patch-builder";
+
+const orig: Record<string, string> = {
+  "src/app.ts": [
+    "function start() {",
+    "  run();",
+    "}",
+    "",
+    "function main() {",
+    "  run();",
+    "  stop();",
+    "}",
+  ].join("\n"),
+  "src/old.ts": "old",
+};
+
+describe("patch-builder", () => {
+  test("builds a patch and its text", () => {
+    const builder = new PatchBuilder(orig);
+    builder
+      .updateFile("src/app.ts")
+      .replace("  run();", "  runAll();")
+      .after("function main() {")
+      .replace([], ["  // starting"])
+      .after("function start() {")
+      .moveTo("src/main.ts");
+    builder.addFile("src/new.ts", "export {};\n").deleteFile("src/old.ts");
+
+    const { patch, text } = builder.build();
+
+    expect(patch.actions["src/app.ts"]).toEqual({
+      type: ActionType.UPDATE,
+      chunks: [
+        { origIndex: 1, delLines: [], insLines: ["  // starting"] },
+        { origIndex: 5, delLines: ["  run();"], insLines: ["  runAll();"] },
+      ],
+      movePath: "src/main.ts",
+    });
+    expect(processPatch(text, orig)).toEqual({
+      "src/main.ts": [
+        "function start() {",
+        "  // starting",
+        "  run();",
+        "}",
+        "",
+        "function main() {",
+        "  runAll();",
+        "  stop();",
+        "}",
+      ].join("\n"),
+      "src/new.ts": "export {};\n",
+    });
+    const [reparsed] = textToPatch(text, orig);
+    expect(patchToCommit(reparsed, orig)).toEqual(patchToCommit(patch, orig));
+  });
+
+  test("copies files with edits", () => {
+    const builder = new PatchBuilder(orig);
+    builder.copyFile("src/old.ts", "src/copy.ts").replace("old", "copy");
+
+    const { patch, text } = builder.build();
+
+    expect(patch.actions["src/copy.ts"]).toMatchObject({
+      type: ActionType.COPY,
+      copyFrom: "src/old.ts",
+    });
+    expect(processPatch(text, orig)).toEqual({ "src/copy.ts": "copy" });
+  });
+
+  test("deletes lines replaced with an empty string", () => {
+    const builder = new PatchBuilder(orig);
+    builder.updateFile("src/app.ts").replace("  stop();", "");
+
+    const { text } = builder.build();
+
+    expect(processPatch(text, orig)["src/app.ts"]).toBe(orig["src/app.ts"]!.replace("  stop();\n", ""));
+  });
+
+  test("refuses to move a copy", () => {
+    const builder = new PatchBuilder(orig);
+    const copy = builder.copyFile("src/old.ts", "src/copy.ts");
+
+    expect(() => copy.moveTo("src/moved.ts")).toThrow("Cannot move the copy src/copy.ts");
+  });
+
+  test("asks for an anchor when lines are ambiguous", () => {
+    const builder = new PatchBuilder(orig);
+    builder.updateFile("src/app.ts").replace("  run();", "  go();");
+
+    try {
+      builder.build();
+      throw new Error("expected an AmbiguousContextError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(AmbiguousContextError);
+      expect((error as AmbiguousContextError).candidates).toEqual([2, 6]);
+    }
+  });
+
+  test("rejects overlapping edits", () => {
+    const builder = new PatchBuilder(orig);
+    builder
+      .updateFile("src/app.ts")
+      .replace(["  run();", "  stop();"], "  halt();")
+      .replace("  stop();", "  end();");
+
+    try {
+      builder.build();
+      throw new Error("expected a DiffError");
+    } catch (error) {
+      expect((error as DiffError).code).toBe(DiffErrorCode.INVALID_CHUNK);
+    }
+  });
+
+  test("validates paths as actions are added", () => {
+    const builder = new PatchBuilder(orig);
+
+    expect(() => builder.updateFile("src/missing.ts")).toThrow(DiffError);
+    expect(() => builder.addFile("src/old.ts", "")).toThrow(DiffError);
+    builder.deleteFile("src/old.ts");
+    expect(() => builder.updateFile("src/old.ts")).toThrow("Duplicate action");
+    expect(builder.updateFile("src/app.ts")).toBe(builder.updateFile("src/app.ts"));
+    builder.copyFile("src/app.ts", "src/copy.ts");
+    expect(() => builder.updateFile("src/copy.ts")).toThrow("Duplicate action");
+  });
+
+  test("reports replaced lines that are missing", () => {
+    const builder = new PatchBuilder(orig);
+    builder.updateFile("src/app.ts").replace("  missing();", "").after("function main() {");
+
+    expect(() => builder.build()).toThrow("lines to replace not found");
+  });
+});
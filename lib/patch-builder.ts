@@ -0,0 +1,246 @@
+/**
+ * Fluent construction of patches from code:
+ *
+ *   new PatchBuilder(files)
+ *     .updateFile("src/app.ts")
+ *     .replace("run();", "runAll();")
+ *     .after("function main() {")
+ *
+ * Edits name the lines they change rather than their positions; positions
+ * are resolved against the original files when the patch is built.
+ */
+
+import {
+  ActionType,
+  AmbiguousContextError,
+  DiffError,
+  DiffErrorCode,
+  findAnchor,
+  splitLines,
+  type Chunk,
+  type Patch,
+  type PatchAction,
+} from "./apply-patch";
+import { patchToText, type CreatePatchOptions } from "./create-patch";
+import { LineIndex } from "./line-index";
+
+export interface BuiltPatch {
+  patch: Patch;
+  text: string;
+}
+
+interface Edit {
+  oldLines: string[];
+  newLines: string[];
+  anchor?: string;
+}
+
+function toLines(lines: string | string[]): string[] {
+  // An empty string is no lines, so that replacing with "" deletes.
+  if (typeof lines !== "string") {
+    return lines;
+  }
+  return lines === "" ? [] : lines.split("\n");
+}
+
+/** What a `FileBuilder` has recorded for one updated or copied file. */
+interface FileEdits {
+  path: string;
+  edits: Edit[];
+  movePath?: string;
+  copyFrom?: string;
+}
+
+export class FileBuilder {
+  private file: FileEdits;
+
+  constructor(file: FileEdits) {
+    this.file = file;
+  }
+
+  public replace(oldLines: string | string[], newLines: string | string[]): this {
+    /**
+     * Replace *oldLines*, which must occur exactly once (after the anchor, if
+     * `after` follows), with *newLines*. With no old lines, *newLines* are
+     * inserted right after the anchor.
+     */
+    this.file.edits.push({ oldLines: toLines(oldLines), newLines: toLines(newLines) });
+    return this;
+  }
+
+  public after(anchor: string): this {
+    /**
+     * Only look for the previous `replace` below the line *anchor*.
+     */
+    const edit = this.file.edits[this.file.edits.length - 1];
+    if (!edit) {
+      throw new DiffError(`after() needs a preceding replace() for ${this.file.path}`, {
+        path: this.file.path,
+      });
+    }
+    edit.anchor = anchor;
+    return this;
+  }
+
+  public moveTo(path: string): this {
+    if (this.file.copyFrom !== undefined) {
+      throw new DiffError(
+        `Cannot move the copy ${this.file.path}; copy to the final path instead`,
+        { path: this.file.path }
+      );
+    }
+    this.file.movePath = path;
+    return this;
+  }
+}
+
+function buildFile(file: FileEdits, orig: Record<string, string>): PatchAction {
+  const source = file.copyFrom ?? file.path;
+  const lines = new LineIndex(splitLines(orig[source]!));
+  const chunks = file.edits
+    .map(edit => resolveEdit(file.path, lines, edit))
+    .sort((a, b) => a.origIndex - b.origIndex);
+
+  for (let i = 1; i < chunks.length; i++) {
+    const prev = chunks[i - 1]!;
+    if (prev.origIndex + prev.delLines.length > chunks[i]!.origIndex) {
+      throw new DiffError(
+        `${file.path}: overlapping edits at lines ${prev.origIndex + 1} and ` +
+          `${chunks[i]!.origIndex + 1}`,
+        { code: DiffErrorCode.INVALID_CHUNK, path: file.path }
+      );
+    }
+  }
+
+  if (file.copyFrom !== undefined) {
+    return { type: ActionType.COPY, chunks, copyFrom: file.copyFrom };
+  }
+  return { type: ActionType.UPDATE, chunks, movePath: file.movePath };
+}
+
+function resolveEdit(path: string, lines: LineIndex, edit: Edit): Chunk {
+  let from = 0;
+  if (edit.anchor !== undefined) {
+    [from] = findAnchor(lines, edit.anchor, 0);
+    if (from === -1) {
+      throw new DiffError(`${path}: anchor not found: ${edit.anchor}`, {
+        code: DiffErrorCode.INVALID_CONTEXT,
+        path,
+        context: [edit.anchor],
+      });
+    }
+  }
+
+  if (!edit.oldLines.length) {
+    if (edit.anchor === undefined) {
+      throw new DiffError(`${path}: an insertion needs after(anchor)`, { path });
+    }
+    return { origIndex: from, delLines: [], insLines: edit.newLines };
+  }
+
+  const matches = lines.findAll(edit.oldLines, from, "exact");
+  if (!matches.length) {
+    throw new DiffError(`${path}: lines to replace not found`, {
+      code: DiffErrorCode.INVALID_CONTEXT,
+      path,
+      context: edit.oldLines,
+    });
+  }
+  if (matches.length > 1) {
+    throw new AmbiguousContextError(
+      `${path}: lines to replace occur ${matches.length} times; add after(anchor)`,
+      matches.map(i => i + 1),
+      { path, context: edit.oldLines }
+    );
+  }
+  return { origIndex: matches[0]!, delLines: edit.oldLines, insLines: edit.newLines };
+}
+
+export class PatchBuilder {
+  private orig: Record<string, string>;
+  private actions = new Map<string, FileEdits | PatchAction>();
+  private builders = new Map<string, FileBuilder>();
+
+  constructor(orig: Record<string, string>) {
+    this.orig = orig;
+  }
+
+  public updateFile(path: string): FileBuilder {
+    /**
+     * Edits to the existing file *path*; calling it again for the same path
+     * returns the same builder.
+     */
+    const existing = this.actions.get(path);
+    if (existing && "edits" in existing && existing.copyFrom === undefined) {
+      return this.builders.get(path)!;
+    }
+    this._claim(path, true);
+    return this._fileBuilder({ path, edits: [] });
+  }
+
+  public copyFile(from: string, to: string): FileBuilder {
+    /**
+     * Copy *from* to the new file *to*; edits apply to the copy.
+     */
+    if (!(from in this.orig)) {
+      throw new DiffError(`Copy File Error - missing file: ${from}`, {
+        code: DiffErrorCode.MISSING_FILE,
+        path: from,
+      });
+    }
+    this._claim(to, false);
+    return this._fileBuilder({ path: to, edits: [], copyFrom: from });
+  }
+
+  public addFile(path: string, content: string): this {
+    this._claim(path, false);
+    this.actions.set(path, { type: ActionType.ADD, newFile: content, chunks: [] });
+    return this;
+  }
+
+  public deleteFile(path: string): this {
+    this._claim(path, true);
+    this.actions.set(path, { type: ActionType.DELETE, chunks: [] });
+    return this;
+  }
+
+  public build(options: CreatePatchOptions = {}): BuiltPatch {
+    /**
+     * Resolve every edit against the original files and return the patch
+     * together with its text.
+     */
+    const patch: Patch = { actions: {} };
+    for (const [path, action] of this.actions) {
+      patch.actions[path] = "edits" in action ? buildFile(action, this.orig) : action;
+    }
+    return { patch, text: patchToText(patch, this.orig, options) };
+  }
+
+  private _fileBuilder(file: FileEdits): FileBuilder {
+    const builder = new FileBuilder(file);
+    this.actions.set(file.path, file);
+    this.builders.set(file.path, builder);
+    return builder;
+  }
+
+  private _claim(path: string, exists: boolean): void {
+    if (this.actions.has(path)) {
+      throw new DiffError(`Duplicate action for file: ${path}`, {
+        code: DiffErrorCode.DUPLICATE_ACTION,
+        path,
+      });
+    }
+    if (exists && !(path in this.orig)) {
+      throw new DiffError(`Missing file: ${path}`, {
+        code: DiffErrorCode.MISSING_FILE,
+        path,
+      });
+    }
+    if (!exists && path in this.orig) {
+      throw new DiffError(`File already exists: ${path}`, {
+        code: DiffErrorCode.FILE_EXISTS,
+        path,
+      });
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, test, expect } from "bun:test";
+import { DiffError, DiffErrorCode, PathPolicyError } from "./apply-patch";
+import { PatchFormat, detectPatchFormat, parseAnyPatch, processAnyPatch } from "./patch-format";
+
+const ORIG = { "a.txt": "one\ntwo\nthree\n" };
+const EXPECTED = { "a.txt": "one\nTWO\nthree\n" };
+
+const V4A = `*** Begin Patch
+*** Update File: a.txt
+ one
+-two
++TWO
+ three
+*** End Patch`;
+
+const UNIFIED = `--- a/a.txt
++++ b/a.txt
+@@ -1,3 +1,3 @@
+ one
+-two
++TWO
+ three
+`;
+
+const SEARCH_REPLACE = `a.txt
+\`\`\`
+<<<<<<< SEARCH
+two
+=======
+TWO
+>>>>>>> REPLACE
+\`\`\`
+`;
+
+describe("patch format", () => {
+  test("detects each format", () => {
+    expect(detectPatchFormat(V4A)).toBe(PatchFormat.V4A);
+    expect(detectPatchFormat(UNIFIED)).toBe(PatchFormat.UNIFIED);
+    expect(detectPatchFormat(`diff --git a/a.txt b/a.txt\n${UNIFIED}`)).toBe(PatchFormat.UNIFIED);
+    expect(detectPatchFormat(SEARCH_REPLACE)).toBe(PatchFormat.SEARCH_REPLACE);
+    expect(detectPatchFormat("just some prose\n--- not a header")).toBeUndefined();
+  });
+
+  test("applies any format to the same result", () => {
+    for (const [text, format] of [
+      [V4A, PatchFormat.V4A],
+      [UNIFIED, PatchFormat.UNIFIED],
+      [SEARCH_REPLACE, PatchFormat.SEARCH_REPLACE],
+    ] as const) {
+      expect(parseAnyPatch(text, ORIG)[2]).toBe(format);
+      expect(processAnyPatch(text, ORIG)).toEqual(EXPECTED);
+    }
+  });
+
+  test("passes parse options to V4A and rejects unknown text", () => {
+    expect(processAnyPatch(`Sure:\n\`\`\`\n${V4A}\n\`\`\``, ORIG, { lenient: true })).toEqual(EXPECTED);
+    expect(() => parseAnyPatch("no patch here", ORIG)).toThrow(DiffError);
+  });
+
+  test("holds every format to the path policy and fuzz limits", () => {
+    const options = { pathPolicy: { allow: ["src/**"] } };
+    const searchReplace = "../../etc/evil\n<<<<<<< SEARCH\n=======\npwned\n>>>>>>> REPLACE\n";
+    const unified = "--- /dev/null\n+++ /abs/evil\n@@ -0,0 +1 @@\n+pwned\n";
+
+    for (const text of [searchReplace, unified]) {
+      expect(() => processAnyPatch(text, ORIG, options)).toThrow(PathPolicyError);
+    }
+    const loose = SEARCH_REPLACE.replace("<<<<<<< SEARCH\ntwo", "<<<<<<< SEARCH\n  two");
+    expect(processAnyPatch(loose, ORIG)).toEqual(EXPECTED);
+    try {
+      processAnyPatch(loose, ORIG, { strict: true });
+      throw new Error("expected a DiffError");
+    } catch (error) {
+      expect((error as DiffError).code).toBe(DiffErrorCode.FUZZ_EXCEEDED);
+    }
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Recognize which edit format a piece of text is in, so callers can accept
+ * V4A patches, unified diffs and SEARCH/REPLACE blocks alike.
+ */
+
+import {
+  DiffError,
+  DiffErrorCode,
+  PathPolicyError,
+  applyCommit,
+  patchToCommit,
+  textToPatch,
+  type ParseOptions,
+  type Patch,
+} from "./apply-patch";
+import { checkPatchPath, normalizePatchPath } from "./path-policy";
+import { parseSearchReplace } from "./search-replace";
+import { parseUnifiedDiff } from "./unified-diff";
+
+export enum PatchFormat {
+  V4A = "v4a",
+  UNIFIED = "unified",
+  SEARCH_REPLACE = "search_replace",
+}
+
+export function detectPatchFormat(text: string): PatchFormat | undefined {
+  /**
+   * The format of the first marker line in *text*: `*** Begin Patch`, a
+   * `<<<<<<< SEARCH` block or a `diff --git` / `---` + `+++` file header.
+   */
+  const lines = text.split("\n").map(line => line.replace(/\r$/, ""));
+  for (const [i, line] of lines.entries()) {
+    if (line.trim().startsWith("*** Begin Patch")) {
+      return PatchFormat.V4A;
+    }
+    if (/^<{5,9} SEARCH\s*$/.test(line)) {
+      return PatchFormat.SEARCH_REPLACE;
+    }
+    if (line.startsWith("diff --git ") || (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ "))) {
+      return PatchFormat.UNIFIED;
+    }
+  }
+  return undefined;
+}
+
+function checkParsed(patch: Patch, fuzz: number, options: ParseOptions): void {
+  /**
+   * Hold a patch from a parser that does not take `ParseOptions` to the
+   * options the V4A parser enforces: `pathPolicy`, `strict` and `maxFuzz`.
+   */
+  const policy = options.pathPolicy;
+  if (policy) {
+    const seen = new Map<string, string>();
+    for (const [path, action] of Object.entries(patch.actions)) {
+      for (const named of [path, action.movePath, action.copyFrom]) {
+        if (named === undefined) {
+          continue;
+        }
+        const violation = checkPatchPath(named, policy);
+        if (violation) {
+          throw new PathPolicyError(violation[1], violation[0], { path: named });
+        }
+        const normalized = normalizePatchPath(named);
+        const other = seen.get(normalized);
+        if (other !== undefined && other !== named) {
+          throw new PathPolicyError(`Path ${named} collides with ${other}`, "duplicate", {
+            path: named,
+          });
+        }
+        seen.set(normalized, named);
+      }
+    }
+  }
+  if (options.strict && fuzz > 0) {
+    throw new DiffError(`Patch only matched loosely (fuzz ${fuzz})`, {
+      code: DiffErrorCode.FUZZ_EXCEEDED,
+    });
+  }
+  if (options.maxFuzz !== undefined && fuzz > options.maxFuzz) {
+    throw new DiffError(`Patch fuzz ${fuzz} exceeds maximum of ${options.maxFuzz}`, {
+      code: DiffErrorCode.FUZZ_EXCEEDED,
+    });
+  }
+}
+
+export function parseAnyPatch(
+  text: string,
+  orig: Record<string, string>,
+  options: ParseOptions = {}
+): [Patch, number, PatchFormat] {
+  /**
+   * Parse *text* in whichever format it is in. `pathPolicy`, `strict` and
+   * `maxFuzz` apply to every format; the other *options* to V4A patches only.
+   */
+  const format = detectPatchFormat(text);
+  if (format === PatchFormat.V4A) {
+    return [...textToPatch(text, orig, options), format];
+  }
+  if (format === PatchFormat.UNIFIED || format === PatchFormat.SEARCH_REPLACE) {
+    const [patch, fuzz] =
+      format === PatchFormat.UNIFIED ? parseUnifiedDiff(text, orig) : parseSearchReplace(text, orig);
+    checkParsed(patch, fuzz, options);
+    return [patch, fuzz, format];
+  }
+  throw new DiffError("Unrecognized patch format", {
+    code: DiffErrorCode.MISSING_SENTINEL,
+  });
+}
+
+export function processAnyPatch(
+  text: string,
+  orig: Record<string, string>,
+  options: ParseOptions = {}
+): Record<string, string> {
+  /**
+   * `processPatch` for text in any supported format.
+   */
+  const [patch] = parseAnyPatch(text, orig, options);
+  return applyCommit(patchToCommit(patch, orig));
+}
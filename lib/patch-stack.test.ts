@@ -0,0 +1,138 @@
+import { describe, test, expect } from "bun:test";
+import { ActionType, DiffErrorCode, applyCommitToFiles, invertCommit } from "./apply-patch";
+import { PatchStackError, applyPatchStack, squashStack } from "./patch-stack";
+
+const orig: Record<string, string> = {
+  "src/a.ts": "one\ntwo\nthree\nfour",
+  "src/b.ts": "bee",
+  "src/c.ts": "sea",
+};
+
+const stack = [
+  `*** Begin Patch
+*** Update File: src/a.ts
+ one
+-two
++TWO
+ three
+*** Delete File: src/c.ts
+*** End Patch`,
+  `*** Begin Patch
+*** Update File: src/a.ts
+*** Move to: lib/a.ts
+ TWO
+ three
++three and a half
+ four
+*** Add File: src/c.ts
++sea again
+*** End Patch`,
+  `*** Begin Patch
+*** Update File: lib/a.ts
+-one
++ONE
+ TWO
+*** End Patch`,
+];
+
+describe("patch-stack", () => {
+  describe("applyPatchStack", () => {
+    test("applies each patch to the result of the previous ones", () => {
+      const result = applyPatchStack(stack, orig);
+
+      expect(result.files).toEqual({
+        "lib/a.ts": "ONE\nTWO\nthree\nthree and a half\nfour",
+        "src/b.ts": "bee",
+        "src/c.ts": "sea again",
+      });
+      expect(result.commits).toHaveLength(3);
+    });
+
+    test("tracks which patch wrote each line", () => {
+      const { owners } = applyPatchStack(stack, orig);
+
+      expect(owners["lib/a.ts"]).toEqual([2, 0, undefined, 1, undefined]);
+      expect(owners["src/b.ts"]).toEqual([undefined]);
+      expect(owners["src/c.ts"]).toEqual([1]);
+      expect(owners["src/a.ts"]).toBeUndefined();
+    });
+
+    test("reports which patch in the series failed", () => {
+      const broken = [
+        stack[0]!,
+        "*** Begin Patch\n*** Update File: src/a.ts\n-two\n+2\n*** End Patch",
+      ];
+
+      try {
+        applyPatchStack(broken, orig);
+        throw new Error("expected a PatchStackError");
+      } catch (error) {
+        expect(error).toBeInstanceOf(PatchStackError);
+        const stackError = error as PatchStackError;
+        expect(stackError.patchIndex).toBe(1);
+        expect(stackError.code).toBe(DiffErrorCode.INVALID_CONTEXT);
+        expect(stackError.path).toBe("src/a.ts");
+        expect(stackError.message).toStartWith("Patch 2 of 2 failed:");
+      }
+    });
+  });
+
+  describe("squashStack", () => {
+    test("combines the stack into one commit against the original", () => {
+      const { files, commits } = applyPatchStack(stack, orig);
+      const squashed = squashStack(commits, orig);
+
+      expect(squashed.changes).toEqual({
+        "src/a.ts": {
+          type: ActionType.UPDATE,
+          oldContent: orig["src/a.ts"],
+          newContent: files["lib/a.ts"],
+          movePath: "lib/a.ts",
+          mode: undefined,
+        },
+        "src/c.ts": {
+          type: ActionType.UPDATE,
+          oldContent: "sea",
+          newContent: "sea again",
+          mode: undefined,
+        },
+      });
+      expect(applyCommitToFiles(orig, squashed)).toEqual(files);
+    });
+
+    test("turns a file moved away and recreated into a copy", () => {
+      const { files, commits } = applyPatchStack(
+        [
+          "*** Begin Patch\n*** Update File: src/b.ts\n*** Move to: src/d.ts\n*** End Patch",
+          "*** Begin Patch\n*** Add File: src/b.ts\n+new bee\n*** End Patch",
+        ],
+        orig
+      );
+      const squashed = squashStack(commits, orig);
+
+      expect(squashed.changes["src/d.ts"]!.type).toBe(ActionType.COPY);
+      expect(applyCommitToFiles(orig, squashed)).toEqual(files);
+    });
+
+    test("keeps an original file that a moved file replaced", () => {
+      const { files, commits } = applyPatchStack(
+        [
+          "*** Begin Patch\n*** Delete File: src/b.ts\n*** End Patch",
+          "*** Begin Patch\n*** Update File: src/a.ts\n*** Move to: src/b.ts\n*** End Patch",
+          "*** Begin Patch\n*** Add File: src/a.ts\n+new\n*** End Patch",
+        ],
+        orig
+      );
+      const squashed = squashStack(commits, orig);
+
+      expect(squashed.changes["src/b.ts"]).toEqual({
+        type: ActionType.UPDATE,
+        oldContent: "bee",
+        newContent: orig["src/a.ts"],
+        mode: undefined,
+      });
+      expect(applyCommitToFiles(orig, squashed)).toEqual(files);
+      expect(applyCommitToFiles(files, invertCommit(squashed))).toEqual(orig);
+    });
+  });
+});
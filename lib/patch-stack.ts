@@ -0,0 +1,258 @@
+/**
+ * Apply an ordered series of patches, each written against the result of the
+ * ones before it, keeping track of which patch produced every line.
+ */
+
+import {
+  ActionType,
+  DiffError,
+  applyCommitToFiles,
+  patchToCommit,
+  splitLines,
+  textToPatch,
+  type Chunk,
+  type Commit,
+  type ParseOptions,
+  type Patch,
+} from "./apply-patch";
+
+/**
+ * For every line of a file, the index of the patch that last wrote it, or
+ * undefined for lines unchanged since the original.
+ */
+export type LineOwners = (number | undefined)[];
+
+export interface StackResult {
+  /** Every file after the last patch, including untouched ones. */
+  files: Record<string, string>;
+  /** One commit per patch, each relative to the files before that patch. */
+  commits: Commit[];
+  owners: Record<string, LineOwners>;
+}
+
+export class PatchStackError extends DiffError {
+  /** 0-based position of the failing patch in the series. */
+  public patchIndex: number;
+  public reason: DiffError;
+
+  constructor(patchIndex: number, count: number, reason: DiffError) {
+    super(`Patch ${patchIndex + 1} of ${count} failed: ${reason.message}`, reason);
+    this.name = "PatchStackError";
+    this.patchIndex = patchIndex;
+    this.reason = reason;
+  }
+}
+
+// --------------------------------------------------------------------------- //
+//  Line ownership
+// --------------------------------------------------------------------------- //
+function applyOwners(owners: LineOwners, chunks: Chunk[], index: number): LineOwners {
+  const out: LineOwners = [];
+  let pos = 0;
+  for (const chunk of chunks) {
+    out.push(...owners.slice(pos, chunk.origIndex), ...chunk.insLines.map(() => index));
+    pos = chunk.origIndex + chunk.delLines.length;
+  }
+  out.push(...owners.slice(pos));
+  return out;
+}
+
+function updateOwners(
+  owners: Record<string, LineOwners>,
+  patch: Patch,
+  files: Record<string, string>,
+  index: number
+): Record<string, LineOwners> {
+  const next = { ...owners };
+  const ownersOf = (path: string) =>
+    owners[path] ?? splitLines(files[path] ?? "").map(() => undefined);
+  const actions = Object.entries(patch.actions);
+
+  // Deletions first, so that a file moved onto a deleted path keeps its lines.
+  for (const [path, action] of actions) {
+    if (action.type === ActionType.DELETE) {
+      delete next[path];
+    }
+  }
+  for (const [path, action] of actions) {
+    if (action.type === ActionType.ADD) {
+      next[path] = splitLines(action.newFile ?? "").map(() => index);
+    } else if (action.type === ActionType.COPY) {
+      next[path] = applyOwners(ownersOf(action.copyFrom!), action.chunks, index);
+    } else if (action.type === ActionType.UPDATE) {
+      const target = action.movePath || path;
+      if (target !== path) {
+        delete next[path];
+      }
+      next[target] = applyOwners(ownersOf(path), action.chunks, index);
+    }
+  }
+  return next;
+}
+
+// --------------------------------------------------------------------------- //
+//  Stack application
+// --------------------------------------------------------------------------- //
+export function applyPatchStack(
+  texts: string[],
+  orig: Record<string, string>,
+  options: ParseOptions = {}
+): StackResult {
+  /**
+   * Apply *texts* in order, each to the files produced by the previous ones.
+   * A patch that fails raises a `PatchStackError` naming its position.
+   */
+  let files = { ...orig };
+  let owners: Record<string, LineOwners> = {};
+  const commits: Commit[] = [];
+
+  texts.forEach((text, index) => {
+    let patch: Patch;
+    let commit: Commit;
+    try {
+      [patch] = textToPatch(text, files, options);
+      commit = patchToCommit(patch, files);
+    } catch (error) {
+      if (error instanceof DiffError) {
+        throw new PatchStackError(index, texts.length, error);
+      }
+      throw error;
+    }
+    owners = updateOwners(owners, patch, files, index);
+    files = applyCommitToFiles(files, commit);
+    commits.push(commit);
+  });
+
+  // Files no patch touched are owned entirely by the original.
+  for (const [path, text] of Object.entries(files)) {
+    owners[path] ??= splitLines(text).map(() => undefined);
+  }
+  return { files, commits, owners };
+}
+
+export function squashStack(commits: Commit[], orig: Record<string, string>): Commit {
+  /**
+   * Combine *commits*, applied in order to *orig*, into one commit whose
+   * `oldContent` is the original state. Moves are followed across commits;
+   * copies become plain additions.
+   */
+  let files = { ...orig };
+  // Current path → the original path it descends from (undefined if new).
+  const origins = new Map<string, string | undefined>(
+    Object.keys(orig).map(path => [path, path])
+  );
+  const modes = new Map<string, string>();
+
+  for (const commit of commits) {
+    const entries = Object.entries(commit.changes);
+    for (const [path, change] of entries) {
+      if (change.type === ActionType.DELETE) {
+        origins.delete(path);
+        modes.delete(path);
+      }
+    }
+    for (const [path, change] of entries) {
+      let target = path;
+      if (change.type === ActionType.ADD || change.type === ActionType.COPY) {
+        origins.set(path, undefined);
+        modes.delete(path);
+      } else if (change.type === ActionType.UPDATE && change.movePath) {
+        target = change.movePath;
+        if (target !== path) {
+          origins.set(target, origins.get(path));
+          origins.delete(path);
+          const mode = modes.get(path);
+          modes.delete(path);
+          if (mode !== undefined) {
+            modes.set(target, mode);
+          }
+        }
+      }
+      if (change.type !== ActionType.DELETE && change.mode) {
+        modes.set(target, change.mode);
+      }
+    }
+    files = applyCommitToFiles(files, commit);
+  }
+
+  const squashed: Commit = { changes: {} };
+  const kept = new Set<string>();
+  for (const [current, origin] of origins) {
+    if (origin === undefined) {
+      continue;
+    }
+    kept.add(origin);
+    const mode = modes.get(current);
+    if (current !== origin || files[current] !== orig[origin] || mode !== undefined) {
+      squashed.changes[origin] = {
+        type: ActionType.UPDATE,
+        oldContent: orig[origin],
+        newContent: files[current],
+        movePath: current !== origin ? current : undefined,
+        mode,
+      };
+    }
+  }
+  for (const path of Object.keys(orig)) {
+    if (!kept.has(path)) {
+      squashed.changes[path] = { type: ActionType.DELETE, oldContent: orig[path] };
+    }
+  }
+  for (const [current, origin] of origins) {
+    if (origin !== undefined) {
+      continue;
+    }
+    const existing = squashed.changes[current];
+    if (existing?.type === ActionType.UPDATE && existing.movePath) {
+      // Moved away and created again: the moved file becomes a copy, or an
+      // update where it replaced an original file.
+      const target = existing.movePath;
+      const displaced = squashed.changes[target];
+      if (displaced?.type === ActionType.UPDATE && displaced.movePath) {
+        squashed.changes[displaced.movePath] = {
+          type: ActionType.COPY,
+          copyFrom: target,
+          oldContent: displaced.oldContent,
+          newContent: displaced.newContent,
+          mode: displaced.mode,
+        };
+      }
+      squashed.changes[target] =
+        target in orig
+          ? {
+              type: ActionType.UPDATE,
+              oldContent: orig[target],
+              newContent: existing.newContent,
+              mode: existing.mode,
+            }
+          : {
+              type: ActionType.COPY,
+              copyFrom: current,
+              oldContent: existing.oldContent,
+              newContent: existing.newContent,
+              mode: existing.mode,
+            };
+      squashed.changes[current] = {
+        type: ActionType.UPDATE,
+        oldContent: orig[current],
+        newContent: files[current],
+        mode: modes.get(current),
+      };
+    } else if (existing?.type === ActionType.DELETE) {
+      // Deleted and created again: an update of the original file.
+      squashed.changes[current] = {
+        type: ActionType.UPDATE,
+        oldContent: orig[current],
+        newContent: files[current],
+        mode: modes.get(current),
+      };
+    } else {
+      squashed.changes[current] = {
+        type: ActionType.ADD,
+        newContent: files[current],
+        mode: modes.get(current),
+      };
+    }
+  }
+  return squashed;
+}
@@ -0,0 +1,116 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DiffErrorCode, PathPolicyError, parsePatch, type ParseOptions } from "./apply-patch";
+import { checkPatchPath, globToRegExp, normalizePatchPath } from "./path-policy";
+
+function rejection(text: string, orig: Record<string, string>, options: ParseOptions) {
+  try {
+    parsePatch(text, orig, options);
+  } catch (error) {
+    expect(error).toBeInstanceOf(PathPolicyError);
+    return error as PathPolicyError;
+  }
+  throw new Error("expected a PathPolicyError");
+}
+
+describe("path-policy", () => {
+  test("normalizes paths", () => {
+    expect(normalizePatchPath("./src//a/../b.ts")).toBe("src/b.ts");
+    expect(normalizePatchPath("src\\lib\\")).toBe("src/lib");
+  });
+
+  test("matches globs", () => {
+    expect(globToRegExp("src/**/*.ts").test("src/a.ts")).toBe(true);
+    expect(globToRegExp("src/**/*.ts").test("src/deep/er/a.ts")).toBe(true);
+    expect(globToRegExp("src/*.ts").test("src/deep/a.ts")).toBe(false);
+    expect(globToRegExp("**/.env*").test(".env.local")).toBe(true);
+    expect(globToRegExp("a?.md").test("ab.md")).toBe(true);
+  });
+
+  test("rejects absolute paths and traversal", () => {
+    expect(checkPatchPath("/etc/passwd", {})?.[0]).toBe("absolute");
+    expect(checkPatchPath("C:\\Windows\\x", {})?.[0]).toBe("absolute");
+    expect(checkPatchPath("src/../../x", {})?.[0]).toBe("traversal");
+    expect(checkPatchPath("", {})?.[0]).toBe("invalid");
+    expect(checkPatchPath("src/../x", {})).toBeUndefined();
+  });
+
+  test("applies allow and deny globs", () => {
+    const policy = { allow: ["src/**"], deny: ["**/*.key"] };
+
+    expect(checkPatchPath("src/a.ts", policy)).toBeUndefined();
+    expect(checkPatchPath("src/secret.key", policy)?.[0]).toBe("deny");
+    expect(checkPatchPath("package.json", policy)?.[0]).toBe("allow");
+  });
+
+  describe("symlinks", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "partial-edit-"));
+      mkdirSync(join(dir, "root/src"), { recursive: true });
+      mkdirSync(join(dir, "outside"));
+      symlinkSync(join(dir, "outside"), join(dir, "root/link"));
+      symlinkSync(join(dir, "root/src"), join(dir, "root/inner"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("rejects paths that leave the root through a symlink", () => {
+      const root = join(dir, "root");
+
+      expect(checkPatchPath("link/new/file.ts", { root })?.[0]).toBe("symlink");
+      expect(checkPatchPath("inner/file.ts", { root })).toBeUndefined();
+      expect(checkPatchPath("src/new/file.ts", { root })).toBeUndefined();
+    });
+  });
+
+  describe("parsing with a pathPolicy", () => {
+    const orig = { "src/a.ts": "one\ntwo" };
+
+    test("rejects a section with a PathPolicyError", () => {
+      const error = rejection(
+        "*** Begin Patch\n*** Update File: src/a.ts\n*** Move to: ../a.ts\n*** End Patch",
+        orig,
+        { pathPolicy: {} }
+      );
+
+      expect(error.rule).toBe("traversal");
+      expect(error.code).toBe(DiffErrorCode.PATH_REJECTED);
+      expect(error.line).toBe(3);
+      expect(error.path).toBe("../a.ts");
+    });
+
+    test("rejects paths that collide after normalization", () => {
+      const error = rejection(
+        "*** Begin Patch\n*** Add File: ./src/a.ts\n+x\n*** End Patch",
+        orig,
+        { pathPolicy: {} }
+      );
+
+      expect(error.rule).toBe("duplicate");
+      expect(error.message).toContain("src/a.ts");
+    });
+
+    test("collects violations with other errors", () => {
+      const result = parsePatch(
+        "*** Begin Patch\n*** Delete File: /etc/hosts\n*** Add File: src/b.ts\n+b\n*** End Patch",
+        orig,
+        { pathPolicy: { allow: ["src/**"] }, collectErrors: true }
+      );
+
+      expect(result.errors.map(error => error.code)).toEqual([DiffErrorCode.PATH_REJECTED]);
+      expect(Object.keys(result.patch.actions)).toEqual(["src/b.ts"]);
+    });
+
+    test("leaves patches alone without a policy", () => {
+      const { patch } = parsePatch("*** Begin Patch\n*** Add File: /tmp/x\n+x\n*** End Patch", orig);
+
+      expect(Object.keys(patch.actions)).toEqual(["/tmp/x"]);
+    });
+  });
+});
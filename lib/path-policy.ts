@@ -0,0 +1,121 @@
+/**
+ * Checks for the file paths a patch names, so that patches from untrusted
+ * sources (such as a model running unattended) can only touch the files they
+ * are meant to.
+ */
+
+import { existsSync, lstatSync, realpathSync } from "fs";
+import { dirname, join, posix, resolve, sep } from "path";
+
+export interface PathPolicy {
+  /**
+   * Directory every path must stay inside once resolved, following symlinks
+   * that already exist on disk.
+   */
+  root?: string;
+  /** Globs (`*`, `**`, `?`) of which a path must match at least one. */
+  allow?: string[];
+  /** Globs that no path may match. */
+  deny?: string[];
+}
+
+/** Which part of the policy a path broke. */
+export type PathRule =
+  | "invalid"
+  | "absolute"
+  | "traversal"
+  | "symlink"
+  | "deny"
+  | "allow"
+  | "duplicate";
+
+export function normalizePatchPath(path: string): string {
+  /**
+   * The canonical spelling of *path*: forward slashes, no `.` segments, no
+   * repeated or trailing slashes. Two paths that name the same file normalize
+   * to the same string.
+   */
+  const normalized = posix.normalize(path.replace(/\\/g, "/"));
+  return normalized.length > 1 ? normalized.replace(/\/+$/, "") : normalized;
+}
+
+export function globToRegExp(glob: string): RegExp {
+  /**
+   * `**` matches across directories, `*` and `?` within one path segment.
+   */
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directory at all.
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function existsOrLink(file: string): boolean {
+  try {
+    lstatSync(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function escapesRoot(root: string, path: string): boolean {
+  // Resolve the deepest part of the path that exists; anything below it
+  // will be created as plain directories and files.
+  const base = resolve(root);
+  const realRoot = realpathSync(base);
+  let file = join(base, path);
+  while (!existsOrLink(file) && file !== base) {
+    file = dirname(file);
+  }
+  let real: string;
+  try {
+    real = realpathSync(file);
+  } catch {
+    return true; // a dangling symlink
+  }
+  return real !== realRoot && !real.startsWith(realRoot + sep);
+}
+
+export function checkPatchPath(
+  path: string,
+  policy: PathPolicy
+): [PathRule, string] | undefined {
+  /**
+   * Return the rule *path* breaks and a description, or undefined if the
+   * policy allows it. Duplicates are detected by the parser, which sees every
+   * path in the patch.
+   */
+  const normalized = normalizePatchPath(path);
+  if (!path.trim() || path.includes("\0") || normalized === ".") {
+    return ["invalid", `Invalid path: ${JSON.stringify(path)}`];
+  }
+  if (normalized.startsWith("/") || /^[A-Za-z]:/.test(normalized)) {
+    return ["absolute", `Absolute paths are not allowed: ${path}`];
+  }
+  if (normalized === ".." || normalized.startsWith("../")) {
+    return ["traversal", `Path leaves the workspace: ${path}`];
+  }
+  if (policy.root !== undefined && existsSync(policy.root) && escapesRoot(policy.root, normalized)) {
+    return ["symlink", `Path resolves outside ${policy.root} through a symlink: ${path}`];
+  }
+  if (policy.deny?.some(glob => globToRegExp(glob).test(normalized))) {
+    return ["deny", `Path is denied by policy: ${path}`];
+  }
+  if (policy.allow && !policy.allow.some(glob => globToRegExp(glob).test(normalized))) {
+    return ["allow", `Path is not allowed by policy: ${path}`];
+  }
+  return undefined;
+}
@@ -0,0 +1,130 @@
+import { describe, test, expect } from "bun:test";
+import { applyCommit, patchToCommit, ActionType, DiffError, DiffErrorCode } from "./apply-patch";
+import { parseSearchReplace } from "./search-replace";
+
+function applyBlocks(text: string, orig: Record<string, string>): Record<string, string> {
+  const [patch] = parseSearchReplace(text, orig);
+  return applyCommit(patchToCommit(patch, orig));
+}
+
+describe("search/replace blocks", () => {
+  test("applies fenced blocks to several files", () => {
+    const orig = {
+      "src/a.py": "def a():\n    return 1\n\n\ndef b():\n    return 2\n",
+      "src/b.py": "x = 1\n",
+    };
+    const text = `Here are the changes.
+
+src/a.py
+\`\`\`python
+<<<<<<< SEARCH
+def b():
+    return 2
+=======
+def b():
+    return 3
+>>>>>>> REPLACE
+\`\`\`
+
+Now the first function as well:
+
+\`\`\`python
+<<<<<<< SEARCH
+    return 1
+=======
+    return 10
+>>>>>>> REPLACE
+\`\`\`
+
+**src/b.py**
+\`\`\`python
+<<<<<<< SEARCH
+x = 1
+=======
+x = 2
+>>>>>>> REPLACE
+\`\`\`
+`;
+    const [patch, fuzz] = parseSearchReplace(text, orig);
+
+    expect(fuzz).toBe(0);
+    expect(patch.actions["src/a.py"]!.chunks.map(chunk => chunk.origIndex)).toEqual([1, 4]);
+    expect(applyBlocks(text, orig)).toEqual({
+      "src/a.py": "def a():\n    return 10\n\n\ndef b():\n    return 3\n",
+      "src/b.py": "x = 2\n",
+    });
+  });
+
+  test("locates SEARCH text with the context tiers", () => {
+    const orig = { "app.ts": "if (x) {\n    run();\n}\n" };
+    const text = `app.ts
+<<<<<<< SEARCH
+if (x) {
+  run();
+}
+=======
+if (x) {
+  run(x);
+}
+>>>>>>> REPLACE
+`;
+    const [, fuzz] = parseSearchReplace(text, orig);
+
+    expect(fuzz).toBe(100);
+    expect(applyBlocks(text, orig)).toEqual({ "app.ts": "if (x) {\n  run(x);\n}\n" });
+  });
+
+  test("edits repeated snippets in order", () => {
+    const orig = { "config.py": "x = 1\ny = 2\nx = 1\n" };
+    const block = (replace: string) => `<<<<<<< SEARCH\nx = 1\n=======\n${replace}\n>>>>>>> REPLACE\n`;
+    const text = `config.py\n${block("x = 10")}${block("x = 20")}`;
+
+    expect(applyBlocks(text, orig)).toEqual({ "config.py": "x = 10\ny = 2\nx = 20\n" });
+  });
+
+  test("creates and appends with an empty SEARCH", () => {
+    const orig = { "notes.md": "# Notes\n" };
+    const text = `new.txt
+<<<<<<< SEARCH
+=======
+hello
+>>>>>>> REPLACE
+
+notes.md
+<<<<<<< SEARCH
+=======
+- one more
+>>>>>>> REPLACE
+`;
+    const [patch] = parseSearchReplace(text, orig);
+
+    expect(patch.actions["new.txt"]).toEqual({ type: ActionType.ADD, newFile: "hello\n", chunks: [] });
+    expect(applyBlocks(text, orig)).toEqual({ "new.txt": "hello\n", "notes.md": "# Notes\n- one more\n" });
+  });
+
+  test("reports unmatched, overlapping and malformed blocks", () => {
+    const orig = { "a.txt": "one\ntwo\nthree\n" };
+    const block = (search: string, replace = "x") =>
+      `<<<<<<< SEARCH\n${search}\n=======\n${replace}\n>>>>>>> REPLACE\n`;
+    const error = (text: string) => {
+      try {
+        parseSearchReplace(text, orig);
+      } catch (e) {
+        expect(e).toBeInstanceOf(DiffError);
+        return e as DiffError;
+      }
+      throw new Error("expected a DiffError");
+    };
+
+    expect(error(`a.txt\n${block("four")}`)).toMatchObject({
+      code: DiffErrorCode.INVALID_CONTEXT,
+      line: 2,
+      path: "a.txt",
+      context: ["four"],
+    });
+    expect(error(`a.txt\n${block("one\ntwo")}${block("two\nthree")}`).code).toBe(DiffErrorCode.INVALID_CHUNK);
+    expect(error(`b.txt\n${block("one")}`).code).toBe(DiffErrorCode.MISSING_FILE);
+    expect(error(block("one")).code).toBe(DiffErrorCode.INVALID_LINE);
+    expect(error("a.txt\n<<<<<<< SEARCH\none\n=======\nx\n").code).toBe(DiffErrorCode.MISSING_SENTINEL);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Parse SEARCH/REPLACE edit blocks, the format aider popularized:
+ *
+ *   src/app.py
+ *   ```python
+ *   <<<<<<< SEARCH
+ *   old lines
+ *   =======
+ *   new lines
+ *   >>>>>>> REPLACE
+ *   ```
+ *
+ * into the same `Patch` structure `textToPatch` produces.
+ */
+
+import {
+  ActionType,
+  DiffError,
+  DiffErrorCode,
+  findContext,
+  splitLines,
+  type Patch,
+  type PatchAction,
+} from "./apply-patch";
+import { LineIndex } from "./line-index";
+
+interface EditBlock {
+  path: string;
+  /** 1-based line of the `<<<<<<< SEARCH` marker. */
+  line: number;
+  search: string[];
+  replace: string[];
+}
+
+const SEARCH = /^<{5,9} SEARCH\s*$/;
+const DIVIDER = /^={5,9}\s*$/;
+const REPLACE = /^>{5,9} REPLACE\s*$/;
+
+function cleanPath(line: string): string {
+  // Paths are often decorated: "# src/app.py", "`src/app.py`", "**src/app.py**:".
+  return line
+    .trim()
+    .replace(/^#+\s*/, "")
+    .replace(/^[`*]+|[`*:]+$/g, "")
+    .trim();
+}
+
+function splitBlocks(text: string, orig: Record<string, string>): EditBlock[] {
+  const lines = text.split("\n").map(line => line.replace(/\r$/, ""));
+  const blocks: EditBlock[] = [];
+  // The file of the previous block, for blocks that do not repeat it.
+  let path: string | undefined;
+  let header: string | undefined;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (!SEARCH.test(line)) {
+      if (line.trim() && !line.trim().startsWith("```")) {
+        header = cleanPath(line);
+      }
+      i += 1;
+      continue;
+    }
+
+    // Prose between blocks is not a path; only take lines that look like one.
+    if (header !== undefined && (header in orig || !/\s/.test(header))) {
+      path = header;
+    }
+    header = undefined;
+    if (path === undefined) {
+      throw new DiffError("SEARCH block without a file path", {
+        code: DiffErrorCode.INVALID_LINE,
+        line: i + 1,
+      });
+    }
+
+    const block: EditBlock = { path, line: i + 1, search: [], replace: [] };
+    let target = block.search;
+    for (i += 1; i < lines.length && !REPLACE.test(lines[i]!); i++) {
+      if (target === block.search && DIVIDER.test(lines[i]!)) {
+        target = block.replace;
+      } else {
+        target.push(lines[i]!);
+      }
+    }
+    if (i === lines.length || target === block.search) {
+      throw new DiffError(`Unterminated SEARCH block for ${path}`, {
+        code: DiffErrorCode.MISSING_SENTINEL,
+        line: block.line,
+        path,
+      });
+    }
+    blocks.push(block);
+    i += 1;
+  }
+
+  return blocks;
+}
+
+export function parseSearchReplace(
+  text: string,
+  orig: Record<string, string>
+): [Patch, number] {
+  /**
+   * Parse SEARCH/REPLACE blocks against *orig*. Each SEARCH text is located
+   * in the original file with the same tiers as patch context, after the
+   * previous block's match in that file if it occurs there, so repeated
+   * snippets are edited in order; an empty SEARCH creates the file, or
+   * appends to it if it exists. The second element is the accumulated fuzz,
+   * as for `textToPatch`.
+   */
+  const patch: Patch = { actions: {} };
+  const indexes = new Map<string, LineIndex>();
+  // Where the next block for each file is searched from first.
+  const positions = new Map<string, number>();
+  let fuzz = 0;
+
+  for (const block of splitBlocks(text, orig)) {
+    const { path } = block;
+    let action: PatchAction | undefined = patch.actions[path];
+
+    if (!(path in orig)) {
+      if (block.search.length) {
+        throw new DiffError(`SEARCH block for missing file: ${path}`, {
+          code: DiffErrorCode.MISSING_FILE,
+          line: block.line,
+          path,
+        });
+      }
+      const content = block.replace.length ? `${block.replace.join("\n")}\n` : "";
+      if (action) {
+        action.newFile += content;
+      } else {
+        patch.actions[path] = { type: ActionType.ADD, newFile: content, chunks: [] };
+      }
+      continue;
+    }
+
+    if (!action) {
+      action = patch.actions[path] = { type: ActionType.UPDATE, chunks: [] };
+      indexes.set(path, new LineIndex(splitLines(orig[path]!)));
+      positions.set(path, 0);
+    }
+    const lines = indexes.get(path)!;
+
+    let origIndex: number;
+    if (!block.search.length) {
+      // Append, keeping the file's final newline at the end.
+      origIndex = lines.lines[lines.length - 1] === "" ? lines.length - 1 : lines.length;
+    } else {
+      let [found, foundFuzz] = findContext(lines, block.search, positions.get(path)!, false);
+      if (found === -1) {
+        // Blocks may come in any order.
+        [found, foundFuzz] = findContext(lines, block.search, 0, false);
+      }
+      if (found === -1) {
+        throw new DiffError(`SEARCH text not found in ${path}:\n${block.search.join("\n")}`, {
+          code: DiffErrorCode.INVALID_CONTEXT,
+          line: block.line,
+          path,
+          context: block.search,
+        });
+      }
+      origIndex = found;
+      fuzz += foundFuzz;
+      positions.set(path, found + block.search.length);
+    }
+    action.chunks.push({ origIndex, delLines: block.search, insLines: block.replace });
+  }
+
+  // Blocks may come in any order, but must not touch the same lines.
+  for (const [path, action] of Object.entries(patch.actions)) {
+    action.chunks.sort((a, b) => a.origIndex - b.origIndex);
+    for (let i = 1; i < action.chunks.length; i++) {
+      const prev = action.chunks[i - 1]!;
+      if (prev.origIndex + prev.delLines.length > action.chunks[i]!.origIndex) {
+        throw new DiffError(`${path}: SEARCH blocks overlap at line ${prev.origIndex + 1}`, {
+          code: DiffErrorCode.INVALID_CHUNK,
+          path,
+        });
+      }
+    }
+  }
+
+  return [patch, fuzz];
+}
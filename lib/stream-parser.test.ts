@@ -0,0 +1,181 @@
+import { describe, test, expect } from "bun:test";
+import { ActionType, DiffError, DiffErrorCode, parsePatch } from "./apply-patch";
+import { PatchStreamParser, type PatchStreamEvent } from "./stream-parser";
+
+const orig: Record<string, string> = {
+  "src/a.ts": "one\ntwo\nthree\nfour\nfive\nsix\nseven",
+  "src/b.ts": "alpha\nbeta",
+};
+
+const patchText = `Here is the patch:
+*** Begin Patch
+*** Update File: src/a.ts
+@@
+ one
+-two
++TWO
+@@
+ five
+-six
++SIX
+*** Add File: src/c.ts
++new
+*** Delete File: src/b.ts
+*** End Patch`;
+
+function summarize(events: PatchStreamEvent[]): string[] {
+  return events.map(event => {
+    if (event.type === "hunk") {
+      return `hunk ${event.hunk.path}:${event.hunk.start} ${event.chunks.map(c => c.origIndex).join(",")}`;
+    }
+    if (event.type === "action") {
+      return `action ${event.path}`;
+    }
+    return event.type;
+  });
+}
+
+describe("stream-parser", () => {
+  test("reports hunks and sections as soon as they are closed", () => {
+    const parser = new PatchStreamParser(orig, { lenient: true });
+    const lines = patchText.split("\n");
+    const seen: string[][] = [];
+    for (const line of lines) {
+      seen.push(summarize(parser.write(`${line}\n`)));
+    }
+    seen.push(summarize(parser.end()));
+
+    // Each entry lists the events returned once that line was written.
+    expect(seen[7]).toEqual(["hunk src/a.ts:0 1"]);
+    expect(seen[11]).toEqual(["hunk src/a.ts:4 5", "action src/a.ts"]);
+    expect(seen[13]).toEqual(["action src/c.ts"]);
+    expect(seen[14]).toEqual(["action src/b.ts", "done"]);
+    expect(seen.flat()).toHaveLength(6);
+  });
+
+  test("produces the same result as parsePatch for any chunking", () => {
+    const expected = parsePatch(patchText, orig, { lenient: true });
+    for (const size of [1, 3, 7, 1000]) {
+      const parser = new PatchStreamParser(orig, { lenient: true });
+      const events: PatchStreamEvent[] = [];
+      for (let i = 0; i < patchText.length; i += size) {
+        events.push(...parser.write(patchText.substring(i, i + size)));
+      }
+      events.push(...parser.end());
+
+      const done = events[events.length - 1]!;
+      expect(done.type).toBe("done");
+      if (done.type === "done") {
+        expect(done.result.patch).toEqual(expected.patch);
+      }
+      const chunks = events.flatMap(event => (event.type === "hunk" ? event.chunks : []));
+      expect(chunks).toEqual(expected.patch.actions["src/a.ts"]!.chunks);
+    }
+  });
+
+  test("matches parsePatch on errors, rejects and repairs", () => {
+    const broken = `Sure:
+\`\`\`diff
+  *** Begin Patch
+*** Update File: src/missing.ts
+@@
+-x
++y
+*** Update File: src/a.ts
+@@
+one
+-two
++TWO
+@@
+-nowhere
++x
+*** End of File
+@@
+ five
+-six
++SIX
+*** Add File: src/c.ts
+oops
+*** Delete File: src/b.ts
+*** End Patch`;
+    const options = { collectErrors: true, lenient: true };
+    const expected = parsePatch(broken, orig, options);
+    expect(expected.rejects).toHaveLength(3);
+
+    const parser = new PatchStreamParser(orig, options);
+    const events = broken.split("\n").flatMap(line => parser.write(`${line}\n`));
+    const done = events[events.length - 1]!;
+
+    expect(done.type === "done" && done.result).toEqual(expected);
+    expect(events.filter(event => event.type === "error")).toHaveLength(3);
+  });
+
+  test("rejects text before the patch unless lenient", () => {
+    const parser = new PatchStreamParser(orig);
+
+    expect(() => parser.write(patchText)).toThrow("Invalid patch text - missing sentinels");
+  });
+
+  test("throws as soon as a hunk cannot be located", () => {
+    const parser = new PatchStreamParser(orig);
+    parser.write("*** Begin Patch\n*** Update File: src/a.ts\n@@\n-missing\n+x\n");
+
+    expect(() => parser.write("@@\n")).toThrow(DiffError);
+  });
+
+  test("emits error events in collectErrors mode", () => {
+    const parser = new PatchStreamParser(orig, { collectErrors: true });
+    const events = [
+      ...parser.write("*** Begin Patch\n*** Update File: src/missing.ts\n"),
+      ...parser.write("@@\n"),
+    ];
+
+    expect(events).toHaveLength(1);
+    expect(events[0]!.type).toBe("error");
+    if (events[0]!.type === "error") {
+      expect(events[0]!.error.code).toBe(DiffErrorCode.MISSING_FILE);
+    }
+  });
+
+  test("requires the end sentinel", () => {
+    const parser = new PatchStreamParser(orig);
+    const events = parser.write("*** Begin Patch\n*** Delete File: src/b.ts\n");
+
+    expect(events).toEqual([]);
+    try {
+      parser.end();
+      throw new Error("expected a DiffError");
+    } catch (error) {
+      expect((error as DiffError).code).toBe(DiffErrorCode.MISSING_SENTINEL);
+    }
+    expect(() => new PatchStreamParser(orig).end()).toThrow(DiffError);
+  });
+
+  test("reports a pure move once its section closes", () => {
+    const parser = new PatchStreamParser(orig);
+    const events = parser.write(
+      "*** Begin Patch\n*** Update File: src/b.ts\n*** Move to: src/d.ts\n*** End Patch"
+    );
+
+    expect(events).toEqual([]);
+    const [action, done] = parser.end();
+    expect(action).toEqual({
+      type: "action",
+      path: "src/b.ts",
+      action: { type: ActionType.UPDATE, chunks: [], movePath: "src/d.ts" },
+    });
+    expect(done!.type).toBe("done");
+  });
+
+  test("waits for the hunk under stacked anchors", () => {
+    const parser = new PatchStreamParser(orig);
+    const seen = [
+      "*** Begin Patch\n*** Update File: src/a.ts\n@@ three\n",
+      "@@ five\n",
+      "-six\n+SIX\n",
+      "*** End Patch\n",
+    ].map(text => summarize(parser.write(text)));
+
+    expect(seen).toEqual([[], [], [], ["hunk src/a.ts:5 5", "action src/a.ts", "done"]]);
+  });
+});
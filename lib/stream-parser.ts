@@ -0,0 +1,215 @@
+/**
+ * Incremental parsing of patch text that arrives in pieces, e.g. streamed
+ * from an LLM. Hunks and file sections are reported as soon as the line that
+ * closes them has been received, so a bad generation can be stopped early.
+ */
+
+import {
+  DiffError,
+  DiffErrorCode,
+  Parser,
+  RepairKind,
+  wrapperRepair,
+  type Chunk,
+  type HunkMatch,
+  type ParseOptions,
+  type ParseResult,
+  type PatchAction,
+  type Repair,
+} from "./apply-patch";
+
+export type PatchStreamEvent =
+  /** A hunk was located; *chunks* are the changes it contributes. */
+  | { type: "hunk"; hunk: HunkMatch; chunks: Chunk[] }
+  /** A file section is complete. */
+  | { type: "action"; path: string; action: PatchAction }
+  /** A problem recorded in `collectErrors` mode (otherwise it is thrown). */
+  | { type: "error"; error: DiffError }
+  /** `*** End Patch` was reached; *result* is what `parsePatch` returns. */
+  | { type: "done"; result: ParseResult };
+
+const SECTION_PREFIXES = [
+  "*** Update File:",
+  "*** Delete File:",
+  "*** Add File:",
+  "*** Copy File:",
+  "*** End Patch",
+];
+
+export class PatchStreamParser {
+  private orig: Record<string, string>;
+  private options: ParseOptions;
+  /** Every line so far; once the patch begins, the parser appends to it. */
+  private lines: string[] = [];
+  private parser?: Parser;
+  private previous = "";
+  /** Lenient repairs to the text before `*** Begin Patch`. */
+  private repairs: Repair[] = [];
+  private partial = "";
+  private done = false;
+  private emittedHunks = 0;
+  private emittedErrors = 0;
+  private emittedActions = new Set<string>();
+  private chunkCounts = new Map<string, number>();
+
+  constructor(orig: Record<string, string>, options: ParseOptions = {}) {
+    this.orig = orig;
+    this.options = options;
+  }
+
+  public write(text: string): PatchStreamEvent[] {
+    /**
+     * Feed the next piece of patch text and return the events it completes.
+     * Parse errors are thrown as soon as the offending section is complete,
+     * unless `collectErrors` is set.
+     */
+    const pieces = (this.partial + text).split("\n");
+    this.partial = pieces.pop()!;
+    const events: PatchStreamEvent[] = [];
+    for (const line of pieces) {
+      events.push(...this._addLine(line));
+    }
+    return events;
+  }
+
+  public end(): PatchStreamEvent[] {
+    /**
+     * Signal the end of input. Throws like `parsePatch` when the text never
+     * started a patch or stopped before `*** End Patch`.
+     */
+    const events: PatchStreamEvent[] = [];
+    if (this.partial) {
+      events.push(...this._addLine(this.partial));
+      this.partial = "";
+    }
+    if (this.done) {
+      return events;
+    }
+    if (!this.parser) {
+      throw new DiffError("Invalid patch text - missing sentinels", {
+        code: DiffErrorCode.MISSING_SENTINEL,
+      });
+    }
+    events.push(...this._finish());
+    return events;
+  }
+
+  // ------------- internals ---------------------------------------------- //
+  private _addLine(line: string): PatchStreamEvent[] {
+    if (this.done) {
+      return [];
+    }
+    const text = Parser._norm(line);
+    const previous = this.previous;
+    this.previous = text;
+
+    if (!this.parser) {
+      // As in `parsePatch`, only lenient parsing skips text before the patch.
+      this.lines.push(line);
+      const lenient = this.options.lenient;
+      if ((lenient ? text.trim() : text).startsWith("*** Begin Patch")) {
+        if (lenient && text !== text.trim()) {
+          this.repairs.push({ kind: RepairKind.WHITESPACE, line: this.lines.length, text });
+        }
+        this.parser = new Parser(this.orig, this.lines, this.lines.length, this.options);
+      } else if (lenient) {
+        this.repairs.push(wrapperRepair(text, this.lines.length));
+      } else {
+        throw new DiffError("Invalid patch text - missing sentinels", {
+          code: DiffErrorCode.MISSING_SENTINEL,
+          line: this.lines.length,
+        });
+      }
+      return [];
+    }
+    this.parser.addLine(line);
+    if (text === "*** End Patch") {
+      return this._finish();
+    }
+
+    // Each of these lines closes the hunk before it; a section header also
+    // closes the file section before it.
+    if (text.startsWith("*** End of File")) {
+      return this._advance(this.lines.length, false);
+    }
+    if (text.startsWith("@@") && previous.startsWith("@@ ")) {
+      // A stacked anchor: the hunk it scopes has not started yet.
+      return [];
+    }
+    if (text.startsWith("@@") || SECTION_PREFIXES.some(p => text.startsWith(p))) {
+      return this._advance(this.lines.length - 1, !text.startsWith("@@"));
+    }
+    return [];
+  }
+
+  private _advance(end: number, sectionClosed: boolean): PatchStreamEvent[] {
+    /**
+     * Parse up to line *end*, continuing from the previous call, and report
+     * what is new.
+     */
+    const parser = this.parser!;
+    parser.parseUpTo(end);
+    const events = this._newEvents(parser);
+    const paths = Object.keys(parser.patch.actions);
+    // The last section may still receive hunks.
+    if (!sectionClosed) {
+      paths.pop();
+    }
+    for (const path of paths) {
+      events.push(...this._actionEvent(path, parser.patch.actions[path]!));
+    }
+    return events;
+  }
+
+  private _finish(): PatchStreamEvent[] {
+    const parser = this.parser!;
+    parser.finish();
+    this.done = true;
+    const events = this._newEvents(parser);
+    for (const [path, action] of Object.entries(parser.patch.actions)) {
+      events.push(...this._actionEvent(path, action));
+    }
+    events.push({
+      type: "done",
+      result: {
+        patch: parser.patch,
+        fuzz: parser.fuzz,
+        hunks: parser.hunks,
+        errors: parser.errors,
+        rejects: parser.rejects,
+        repairs: [...this.repairs, ...parser.repairs].sort((a, b) => a.line - b.line),
+      },
+    });
+    return events;
+  }
+
+  private _newEvents(parser: Parser): PatchStreamEvent[] {
+    // Hunks are closed one at a time, so each call adds at most one hunk and
+    // the chunks its file gained since the previous call are that hunk's.
+    const events: PatchStreamEvent[] = [];
+    for (const hunk of parser.hunks.slice(this.emittedHunks)) {
+      const chunks = parser.patch.actions[hunk.path]?.chunks ?? [];
+      events.push({
+        type: "hunk",
+        hunk,
+        chunks: chunks.slice(this.chunkCounts.get(hunk.path) ?? 0),
+      });
+      this.chunkCounts.set(hunk.path, chunks.length);
+    }
+    this.emittedHunks = parser.hunks.length;
+
+    for (const error of parser.errors.slice(this.emittedErrors)) {
+      events.push({ type: "error", error });
+    }
+    this.emittedErrors = parser.errors.length;
+    return events;
+  }
+
+  private _actionEvent(path: string, action: PatchAction): PatchStreamEvent[] {
+    if (this.emittedActions.has(path)) {
+      return [];
+    }
+    this.emittedActions.add(path);
+    return [{ type: "action", path, action }];
+  }
+}
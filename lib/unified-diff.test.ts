@@ -0,0 +1,268 @@
+import { describe, test, expect } from "bun:test";
+import { applyCommit, patchToCommit, ActionType, DiffError, DiffErrorCode } from "./apply-patch";
+import { commitToUnifiedDiff, parseUnifiedDiff } from "./unified-diff";
+
+function applyDiff(text: string, orig: Record<string, string>): Record<string, string> {
+  const [patch] = parseUnifiedDiff(text, orig);
+  return applyCommit(patchToCommit(patch, orig));
+}
+
+describe("unified diff", () => {
+  describe("parseUnifiedDiff", () => {
+    test("parses git diff output with several files", () => {
+      const orig = {
+        "src/a.ts": "one\ntwo\nthree\nfour\n",
+        "src/gone.ts": "bye\n",
+      };
+      const diff = `diff --git a/src/a.ts b/src/a.ts
+index 1111111..2222222 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,4 +1,4 @@
+ one
+-two
++TWO
+ three
+ four
+diff --git a/src/gone.ts b/src/gone.ts
+deleted file mode 100644
+index 3333333..0000000
+--- a/src/gone.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-bye
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+index 0000000..4444444
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1,2 @@
++hello
++world
+`;
+
+      const [patch, fuzz] = parseUnifiedDiff(diff, orig);
+
+      expect(fuzz).toBe(0);
+      expect(patch.actions["src/gone.ts"]!.type).toBe(ActionType.DELETE);
+      expect(patch.actions["src/new.ts"]).toEqual({
+        type: ActionType.ADD,
+        newFile: "hello\nworld\n",
+        chunks: [],
+      });
+      expect(applyDiff(diff, orig)).toEqual({
+        "src/a.ts": "one\nTWO\nthree\nfour\n",
+        "src/new.ts": "hello\nworld\n",
+      });
+    });
+
+    test("parses renames with and without changes", () => {
+      const orig = { "old.ts": "a\nb\nc\n", "same.ts": "x\n" };
+      const diff = `diff --git a/old.ts b/new.ts
+similarity index 80%
+rename from old.ts
+rename to new.ts
+--- a/old.ts
++++ b/new.ts
+@@ -2 +2 @@
+-b
++B
+diff --git a/same.ts b/moved/same.ts
+similarity index 100%
+rename from same.ts
+rename to moved/same.ts
+`;
+
+      expect(applyDiff(diff, orig)).toEqual({
+        "new.ts": "a\nB\nc\n",
+        "moved/same.ts": "x\n",
+      });
+    });
+
+    test("handles missing newlines at end of file", () => {
+      const orig = { "a.txt": "one\ntwo", "b.txt": "one\ntwo\n" };
+      const diff = `--- a.txt
++++ a.txt
+@@ -1,2 +1,2 @@
+ one
+-two
+\\ No newline at end of file
++two
+--- b.txt\t2024-01-01 00:00:00.000000000 +0000
++++ b.txt\t2024-01-02 00:00:00.000000000 +0000
+@@ -1,2 +1,2 @@
+ one
+-two
++TWO
+\\ No newline at end of file
+`;
+
+      expect(applyDiff(diff, orig)).toEqual({
+        "a.txt": "one\ntwo\n",
+        "b.txt": "one\nTWO",
+      });
+    });
+
+    test("uses hunk counts so removed lines may look like headers", () => {
+      const orig = { "notes.md": "-- intro\nbody\n" };
+      const diff = `--- a/notes.md
++++ b/notes.md
+@@ -1,2 +1,1 @@
+--- intro
+ body
+`;
+
+      expect(applyDiff(diff, orig)).toEqual({ "notes.md": "body\n" });
+    });
+
+    test("locates hunks whose line numbers drifted", () => {
+      const orig = { "a.ts": "new first\none\ntwo\nthree\n" };
+      const diff = `--- a/a.ts
++++ b/a.ts
+@@ -1,2 +1,2 @@
+ one
+-two
++TWO
+`;
+
+      expect(applyDiff(diff, orig)).toEqual({ "a.ts": "new first\none\nTWO\nthree\n" });
+    });
+
+    test("reports hunks that do not match", () => {
+      const orig = { "a.ts": "one\ntwo\n" };
+      const diff = `--- a/a.ts
++++ b/a.ts
+@@ -1,2 +1,2 @@
+ one
+-three
++THREE
+`;
+
+      try {
+        parseUnifiedDiff(diff, orig);
+        throw new Error("expected a DiffError");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DiffError);
+        expect((error as DiffError).code).toBe(DiffErrorCode.INVALID_CONTEXT);
+        expect((error as DiffError).line).toBe(3);
+        expect((error as DiffError).path).toBe("a.ts");
+      }
+    });
+  });
+
+  describe("commitToUnifiedDiff", () => {
+    test("renders updates, adds, deletes and renames", () => {
+      const orig = {
+        "a.ts": "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n",
+        "old.ts": "keep\n",
+        "gone.ts": "bye",
+      };
+      const updated = {
+        "a.ts": "1\nTWO\n3\n4\n5\n6\n7\n8\n9\nTEN\n",
+        "new.ts": "keep\n",
+        "added.ts": "hi",
+      };
+      const commit = {
+        changes: {
+          "a.ts": { type: ActionType.UPDATE, oldContent: orig["a.ts"], newContent: updated["a.ts"] },
+          "old.ts": { type: ActionType.UPDATE, oldContent: "keep\n", newContent: "keep\n", movePath: "new.ts" },
+          "gone.ts": { type: ActionType.DELETE, oldContent: "bye" },
+          "added.ts": { type: ActionType.ADD, newContent: "hi" },
+        },
+      };
+
+      const diff = commitToUnifiedDiff(commit, { context: 1 });
+
+      expect(diff).toBe(`diff --git a/a.ts b/a.ts
+--- a/a.ts
++++ b/a.ts
+@@ -1,3 +1,3 @@
+ 1
+-2
++TWO
+ 3
+@@ -9,2 +9,2 @@
+ 9
+-10
++TEN
+diff --git a/old.ts b/new.ts
+rename from old.ts
+rename to new.ts
+diff --git a/gone.ts b/gone.ts
+deleted file mode 100644
+--- a/gone.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-bye
+\\ No newline at end of file
+diff --git a/added.ts b/added.ts
+new file mode 100644
+--- /dev/null
++++ b/added.ts
+@@ -0,0 +1 @@
++hi
+\\ No newline at end of file
+`);
+      expect(applyDiff(diff, orig)).toEqual(updated);
+    });
+
+    test("round-trips a change to the final newline", () => {
+      const orig = { "a.txt": "x\ny" };
+      const commit = {
+        changes: {
+          "a.txt": { type: ActionType.UPDATE, oldContent: "x\ny", newContent: "x\ny\nz\n" },
+        },
+      };
+
+      expect(applyDiff(commitToUnifiedDiff(commit), orig)).toEqual({ "a.txt": "x\ny\nz\n" });
+    });
+
+    test("skips updates that change nothing", () => {
+      const commit = {
+        changes: {
+          "same.txt": { type: ActionType.UPDATE, oldContent: "x\n", newContent: "x\n" },
+          "mode.txt": { type: ActionType.UPDATE, oldContent: "x\n", newContent: "x\n", mode: "644", oldMode: "644" },
+        },
+      };
+
+      expect(commitToUnifiedDiff(commit)).toBe("");
+    });
+
+    test("round-trips copies and mode changes", () => {
+      const orig = { "a.sh": "echo a\n" };
+      const commit = {
+        changes: {
+          "b.sh": {
+            type: ActionType.COPY,
+            copyFrom: "a.sh",
+            oldContent: "echo a\n",
+            newContent: "echo b\n",
+            mode: "755",
+          },
+          "a.sh": { type: ActionType.UPDATE, oldContent: "echo a\n", newContent: "echo a\n", mode: "755" },
+        },
+      };
+
+      const diff = commitToUnifiedDiff(commit);
+
+      expect(diff).toBe(`diff --git a/a.sh b/b.sh
+old mode 100644
+new mode 100755
+copy from a.sh
+copy to b.sh
+--- a/a.sh
++++ b/b.sh
+@@ -1 +1 @@
+-echo a
++echo b
+diff --git a/a.sh b/a.sh
+old mode 100644
+new mode 100755
+`);
+      const [patch] = parseUnifiedDiff(diff, orig);
+      expect(patch.actions["b.sh"]).toMatchObject({ type: ActionType.COPY, copyFrom: "a.sh", mode: "755" });
+      expect(patch.actions["a.sh"]).toMatchObject({ type: ActionType.UPDATE, chunks: [], mode: "755" });
+      expect(applyDiff(diff, orig)).toEqual({ "a.sh": "echo a\n", "b.sh": "echo b\n" });
+    });
+  });
+});
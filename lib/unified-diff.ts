@@ -0,0 +1,446 @@
+/**
+ * Conversion between unified diffs (`git diff`, `diff -u`) and the patch
+ * structures used by `processPatch`, so patches can flow both ways between
+ * this library and `git apply`.
+ */
+
+import {
+  ActionType,
+  DiffError,
+  DiffErrorCode,
+  findContext,
+  normalizeFileMode,
+  splitLines,
+  type Chunk,
+  type Commit,
+  type Patch,
+  type PatchAction,
+} from "./apply-patch";
+import { diffLines, groupChunks } from "./line-diff";
+import { LineIndex } from "./line-index";
+
+export interface UnifiedDiffOptions {
+  /** Unchanged lines shown around each change (default 3). */
+  context?: number;
+}
+
+// --------------------------------------------------------------------------- //
+//  Unified diff → Patch
+// --------------------------------------------------------------------------- //
+type HunkOp = [" " | "-" | "+", string];
+
+interface FileDiff {
+  /** 1-based line of the file's first header line. */
+  line: number;
+  oldPath?: string;
+  newPath?: string;
+  rename: boolean;
+  copy: boolean;
+  /** Permission bits set by a `new mode` or non-default `new file mode` line. */
+  mode?: string;
+  hunks: { line: number; oldStart: number; oldCount: number; ops: HunkOp[] }[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function stripPath(raw: string, prefix: string): string | undefined {
+  // `diff -u` may append a tab and a timestamp to the path.
+  const path = raw.split("\t")[0]!.trim();
+  if (path === "/dev/null") {
+    return undefined;
+  }
+  return path.startsWith(prefix) ? path.substring(prefix.length) : path;
+}
+
+function splitDiff(text: string): FileDiff[] {
+  const lines = text.split("\n").map(line => line.replace(/\r$/, ""));
+  const files: FileDiff[] = [];
+  let file: FileDiff | undefined;
+  // Set between a `diff --git` line and its `---`/`+++` pair.
+  let pending: FileDiff | undefined;
+  let i = 0;
+
+  const start = () => {
+    file = { line: i + 1, rename: false, copy: false, hunks: [] };
+    files.push(file);
+    return file;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (line.startsWith("diff --git ")) {
+      const current = start();
+      pending = current;
+      const match = /^diff --git a\/(.+) b\/(.+)$/.exec(line);
+      if (match) {
+        current.oldPath = match[1];
+        current.newPath = match[2];
+      }
+      i += 1;
+    } else if (line.startsWith("rename from ") || line.startsWith("rename to ")) {
+      const current = file ?? start();
+      current.rename = true;
+      if (line.startsWith("rename from ")) {
+        current.oldPath = line.substring("rename from ".length);
+      } else {
+        current.newPath = line.substring("rename to ".length);
+      }
+      i += 1;
+    } else if (line.startsWith("copy from ") || line.startsWith("copy to ")) {
+      const current = file ?? start();
+      current.copy = true;
+      if (line.startsWith("copy from ")) {
+        current.oldPath = line.substring("copy from ".length);
+      } else {
+        current.newPath = line.substring("copy to ".length);
+      }
+      i += 1;
+    } else if (line.startsWith("new file mode ")) {
+      const current = file ?? start();
+      const mode = normalizeFileMode(line.substring("new file mode ".length).trim());
+      current.oldPath = undefined;
+      current.mode = mode === "644" ? undefined : mode;
+      i += 1;
+    } else if (line.startsWith("new mode ")) {
+      (file ?? start()).mode = normalizeFileMode(line.substring("new mode ".length).trim());
+      i += 1;
+    } else if (line.startsWith("deleted file mode")) {
+      (file ?? start()).newPath = undefined;
+      i += 1;
+    } else if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      // Plain `diff -u` output has no `diff --git` line to start a file.
+      const current = pending ?? start();
+      pending = undefined;
+      current.oldPath = stripPath(line.substring(4), "a/");
+      current.newPath = stripPath(lines[i + 1]!.substring(4), "b/");
+      i += 2;
+    } else if (line.startsWith("@@ ")) {
+      const match = HUNK_HEADER.exec(line);
+      if (!match || !file) {
+        throw new DiffError(`Invalid hunk header: ${line}`, {
+          code: DiffErrorCode.INVALID_LINE,
+          line: i + 1,
+        });
+      }
+      const oldCount = match[2] === undefined ? 1 : Number(match[2]);
+      const newCount = match[4] === undefined ? 1 : Number(match[4]);
+      const hunk = { line: i + 1, oldStart: Number(match[1]), oldCount, ops: [] as HunkOp[] };
+      file.hunks.push(hunk);
+      i += 1;
+
+      // Hunk bodies are bounded by their counts: a deleted "-- x" line would
+      // otherwise look like a file header.
+      let oldSeen = 0;
+      let newSeen = 0;
+      let noNewlineOld = false;
+      let noNewlineNew = false;
+      while (i < lines.length && (oldSeen < oldCount || newSeen < newCount || lines[i]!.startsWith("\\"))) {
+        const body = lines[i]!;
+        if (body.startsWith("\\")) {
+          const last = hunk.ops[hunk.ops.length - 1];
+          noNewlineOld ||= last?.[0] !== "+";
+          noNewlineNew ||= last?.[0] !== "-";
+          i += 1;
+          continue;
+        }
+        const prefix = body === "" ? " " : body[0];
+        if (prefix !== " " && prefix !== "-" && prefix !== "+") {
+          throw new DiffError(`Invalid line in hunk: ${body}`, {
+            code: DiffErrorCode.INVALID_LINE,
+            line: i + 1,
+            path: file.newPath ?? file.oldPath,
+          });
+        }
+        hunk.ops.push([prefix, body.substring(1)]);
+        oldSeen += prefix === "+" ? 0 : 1;
+        newSeen += prefix === "-" ? 0 : 1;
+        i += 1;
+      }
+
+      // Our line model represents a trailing newline as a final empty line.
+      if (noNewlineOld !== noNewlineNew) {
+        hunk.ops.push([noNewlineOld ? "+" : "-", ""]);
+      }
+    } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+      throw new DiffError(`Binary diffs are not supported: ${line}`, {
+        code: DiffErrorCode.INVALID_LINE,
+        line: i + 1,
+      });
+    } else {
+      // index, mode and similarity lines, or prose around the diff
+      i += 1;
+    }
+  }
+
+  return files;
+}
+
+function hunksToChunks(
+  path: string,
+  lines: string[],
+  file: FileDiff
+): [Chunk[], number] {
+  const chunks: Chunk[] = [];
+  let fuzz = 0;
+  let index = 0;
+  // Only built once a hunk's line numbers turn out to be off.
+  let lineIndex: LineIndex | undefined;
+
+  for (const hunk of file.hunks) {
+    const old = hunk.ops.filter(([op]) => op !== "+").map(([, text]) => text);
+    // A hunk that only inserts names the line it follows.
+    const expected = hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    let start = expected;
+    if (
+      expected < index ||
+      !old.every((text, k) => lines[expected + k] === text) ||
+      expected + old.length > lines.length
+    ) {
+      lineIndex ??= new LineIndex(lines);
+      const [found, foundFuzz] = findContext(lineIndex, old, index, false);
+      if (found === -1) {
+        throw new DiffError(`Hunk does not match ${path} at line ${hunk.oldStart}`, {
+          code: DiffErrorCode.INVALID_CONTEXT,
+          line: hunk.line,
+          path,
+          context: old,
+        });
+      }
+      start = found;
+      fuzz += foundFuzz;
+    }
+
+    let pos = start;
+    let current: Chunk | undefined;
+    for (const [op, text] of hunk.ops) {
+      if (op === " ") {
+        current = undefined;
+        pos += 1;
+        continue;
+      }
+      if (!current) {
+        current = { origIndex: pos, delLines: [], insLines: [] };
+        chunks.push(current);
+      }
+      if (op === "-") {
+        current.delLines.push(text);
+        pos += 1;
+      } else {
+        current.insLines.push(text);
+      }
+    }
+    index = start + old.length;
+  }
+
+  return [chunks, fuzz];
+}
+
+export function parseUnifiedDiff(
+  text: string,
+  orig: Record<string, string>
+): [Patch, number] {
+  /**
+   * Parse unified diff text against *orig*. Hunks are placed by their line
+   * numbers and searched for by context when the file has drifted; the
+   * second element is the accumulated fuzz, as for `textToPatch`.
+   */
+  const patch: Patch = { actions: {} };
+  let fuzz = 0;
+
+  for (const file of splitDiff(text)) {
+    // Copies are keyed by their target, everything else by the old path.
+    const path = file.copy ? file.newPath : file.oldPath ?? file.newPath;
+    if (path === undefined) {
+      throw new DiffError("File diff without a path", {
+        code: DiffErrorCode.INVALID_LINE,
+        line: file.line,
+      });
+    }
+    if (path in patch.actions) {
+      throw new DiffError(`Duplicate diff for file: ${path}`, {
+        code: DiffErrorCode.DUPLICATE_ACTION,
+        line: file.line,
+        path,
+      });
+    }
+
+    let action: PatchAction;
+    if (file.oldPath === undefined) {
+      if (path in orig) {
+        throw new DiffError(`Add File Error - file already exists: ${path}`, {
+          code: DiffErrorCode.FILE_EXISTS,
+          line: file.line,
+          path,
+        });
+      }
+      const ops = file.hunks.flatMap(hunk => hunk.ops);
+      const added = ops.filter(([op]) => op === "+").map(([, line]) => line);
+      // "\ No newline at end of file" leaves a deleted empty last line.
+      const newline = added.length > 0 && !ops.some(([op]) => op === "-");
+      action = {
+        type: ActionType.ADD,
+        newFile: added.join("\n") + (newline ? "\n" : ""),
+        chunks: [],
+        mode: file.mode,
+      };
+    } else if (file.copy) {
+      const source = file.oldPath;
+      if (!(source in orig)) {
+        throw new DiffError(`Diff Error - missing file: ${source}`, {
+          code: DiffErrorCode.MISSING_FILE,
+          line: file.line,
+          path: source,
+        });
+      }
+      if (path in orig) {
+        throw new DiffError(`Copy Error - file already exists: ${path}`, {
+          code: DiffErrorCode.FILE_EXISTS,
+          line: file.line,
+          path,
+        });
+      }
+      const [chunks, hunkFuzz] = hunksToChunks(path, splitLines(orig[source]!), file);
+      fuzz += hunkFuzz;
+      action = { type: ActionType.COPY, chunks, copyFrom: source, mode: file.mode };
+    } else if (!(path in orig)) {
+      throw new DiffError(`Diff Error - missing file: ${path}`, {
+        code: DiffErrorCode.MISSING_FILE,
+        line: file.line,
+        path,
+      });
+    } else if (file.newPath === undefined) {
+      action = { type: ActionType.DELETE, chunks: [] };
+    } else {
+      // Plain `diff -u old new` names two files; only git marks renames.
+      const [chunks, hunkFuzz] = hunksToChunks(path, splitLines(orig[path]!), file);
+      fuzz += hunkFuzz;
+      action = {
+        type: ActionType.UPDATE,
+        chunks,
+        movePath: file.rename && file.newPath !== path ? file.newPath : undefined,
+        mode: file.mode,
+      };
+    }
+    patch.actions[path] = action;
+  }
+
+  return [patch, fuzz];
+}
+
+// --------------------------------------------------------------------------- //
+//  Commit → unified diff
+// --------------------------------------------------------------------------- //
+// Appended to a last line that lacks a newline, so that gaining or losing the
+// final newline shows up as a change. "\n" never occurs inside a line.
+const NO_NEWLINE = "\n";
+
+function diffSide(text: string | undefined): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE;
+  }
+  return lines;
+}
+
+function formatRange(start: number, count: number): string {
+  if (count === 0) {
+    return `${start},0`;
+  }
+  return count === 1 ? `${start + 1}` : `${start + 1},${count}`;
+}
+
+function renderHunks(oldLines: string[], newLines: string[], context: number): string[] {
+  const out: string[] = [];
+  const emit = (prefix: string, line: string) => {
+    if (line.endsWith(NO_NEWLINE)) {
+      out.push(`${prefix}${line.slice(0, -1)}`, "\\ No newline at end of file");
+    } else {
+      out.push(`${prefix}${line}`);
+    }
+  };
+
+  let delta = 0;
+  for (const group of groupChunks(diffLines(oldLines, newLines), context)) {
+    const first = group[0]!;
+    const last = group[group.length - 1]!;
+    const start = Math.max(0, first.origIndex - context);
+    const end = Math.min(oldLines.length, last.origIndex + last.delLines.length + context);
+    const changed = group.reduce((n, c) => n + c.insLines.length - c.delLines.length, 0);
+
+    out.push(
+      `@@ -${formatRange(start, end - start)} ` +
+        `+${formatRange(start + delta, end - start + changed)} @@`
+    );
+    let pos = start;
+    for (const chunk of group) {
+      for (; pos < chunk.origIndex; pos++) {
+        emit(" ", oldLines[pos]!);
+      }
+      chunk.delLines.forEach(line => emit("-", line));
+      chunk.insLines.forEach(line => emit("+", line));
+      pos += chunk.delLines.length;
+    }
+    for (; pos < end; pos++) {
+      emit(" ", oldLines[pos]!);
+    }
+    delta += changed;
+  }
+
+  return out;
+}
+
+export function commitToUnifiedDiff(
+  commit: Commit,
+  options: UnifiedDiffOptions = {}
+): string {
+  /**
+   * Render a commit as a git-style unified diff that `git apply` accepts.
+   */
+  const context = options.context ?? 3;
+  const out: string[] = [];
+
+  for (const [key, change] of Object.entries(commit.changes)) {
+    // A copy is keyed by its target but reads from its source.
+    const path = change.type === ActionType.COPY ? change.copyFrom! : key;
+    const target = change.type === ActionType.UPDATE ? change.movePath || key : key;
+    const oldLines = change.type === ActionType.ADD ? [] : diffSide(change.oldContent);
+    const newLines = change.type === ActionType.DELETE ? [] : diffSide(change.newContent);
+    const hunks = renderHunks(oldLines, newLines, context);
+    const modeChanged = Boolean(change.mode && change.mode !== change.oldMode);
+    if (change.type === ActionType.UPDATE && !hunks.length && !modeChanged && target === path) {
+      // Nothing to write: `git apply` rejects a header without changes.
+      continue;
+    }
+
+    out.push(`diff --git a/${path} b/${target}`);
+    if (change.type === ActionType.ADD) {
+      out.push(`new file mode 100${change.mode ?? "644"}`);
+    } else if (change.type === ActionType.DELETE) {
+      out.push(`deleted file mode 100${change.oldMode ?? "644"}`);
+    } else {
+      if (modeChanged) {
+        out.push(`old mode 100${change.oldMode ?? "644"}`, `new mode 100${change.mode}`);
+      }
+      if (change.type === ActionType.COPY) {
+        out.push(`copy from ${path}`, `copy to ${target}`);
+      } else if (target !== path) {
+        out.push(`rename from ${path}`, `rename to ${target}`);
+      }
+    }
+    if (hunks.length) {
+      out.push(
+        change.type === ActionType.ADD ? "--- /dev/null" : `--- a/${path}`,
+        change.type === ActionType.DELETE ? "+++ /dev/null" : `+++ b/${target}`,
+        ...hunks
+      );
+    }
+  }
+
+  return out.length ? `${out.join("\n")}\n` : "";
+}
@@ -0,0 +1,131 @@
+import { describe, test, expect } from "bun:test";
+import { ActionType, DiffError, DiffErrorCode } from "./apply-patch";
+import { VirtualWorkspace } from "./virtual-workspace";
+
+const orig: Record<string, string> = {
+  "src/a.ts": "one\ntwo",
+  "src/b.ts": "bee",
+};
+
+const rename = `*** Begin Patch
+*** Update File: src/a.ts
+*** Move to: lib/a.ts
+ one
+-two
++TWO
+*** End Patch`;
+
+const addAndDelete = `*** Begin Patch
+*** Add File: src/c.ts
++sea
+*** Delete File: src/b.ts
+*** End Patch`;
+
+describe("virtual-workspace", () => {
+  test("keeps untouched files while applying patches", () => {
+    const workspace = new VirtualWorkspace(orig);
+
+    const commit = workspace.applyPatch(rename);
+
+    expect(Object.keys(commit.changes)).toEqual(["src/a.ts"]);
+    expect(workspace.files).toEqual({ "lib/a.ts": "one\nTWO", "src/b.ts": "bee" });
+    expect(workspace.read("src/a.ts")).toBeUndefined();
+  });
+
+  test("undoes and redoes commits", () => {
+    const workspace = new VirtualWorkspace(orig);
+    workspace.applyPatch(rename);
+    workspace.applyPatch(addAndDelete);
+    const final = workspace.files;
+
+    const inverse = workspace.undo();
+    expect(inverse!.changes["src/c.ts"]!.type).toBe(ActionType.DELETE);
+    expect(workspace.files).toEqual({ "lib/a.ts": "one\nTWO", "src/b.ts": "bee" });
+    workspace.undo();
+    expect(workspace.files).toEqual(orig);
+    expect(workspace.undo()).toBeUndefined();
+
+    workspace.redo();
+    workspace.redo();
+    expect(workspace.files).toEqual(final);
+    expect(workspace.canRedo).toBe(false);
+    expect(workspace.redo()).toBeUndefined();
+  });
+
+  test("drops undone commits when a new one is applied", () => {
+    const workspace = new VirtualWorkspace(orig);
+    workspace.applyPatch(rename);
+    workspace.undo();
+
+    workspace.applyPatch(addAndDelete);
+
+    expect(workspace.commits).toHaveLength(1);
+    expect(workspace.canRedo).toBe(false);
+    expect(workspace.files).toEqual({ "src/a.ts": "one\ntwo", "src/c.ts": "sea" });
+  });
+
+  test("returns snapshots at any point of the history", () => {
+    const workspace = new VirtualWorkspace(orig);
+    workspace.applyPatch(rename);
+    workspace.applyPatch(addAndDelete);
+    workspace.undo();
+
+    expect(workspace.snapshot(0)).toEqual(orig);
+    expect(workspace.snapshot()).toEqual({ "lib/a.ts": "one\nTWO", "src/b.ts": "bee" });
+    expect(workspace.snapshot(2)).toEqual({ "lib/a.ts": "one\nTWO", "src/c.ts": "sea" });
+    expect(() => workspace.snapshot(3)).toThrow(RangeError);
+  });
+
+  test("leaves files unchanged when a patch or commit fails", () => {
+    const workspace = new VirtualWorkspace(orig);
+    const broken = `*** Begin Patch
+*** Add File: src/c.ts
++sea
+*** Update File: src/b.ts
+-missing
++line
+*** End Patch`;
+
+    expect(() => workspace.applyPatch(broken)).toThrow(DiffError);
+    expect(() =>
+      workspace.applyCommit({
+        changes: {
+          "src/c.ts": { type: ActionType.ADD, newContent: "sea" },
+          "src/b.ts": { type: ActionType.UPDATE, oldContent: "stale", newContent: "new" },
+        },
+      })
+    ).toThrow("File changed since the commit was made: src/b.ts");
+    try {
+      workspace.applyCommit({
+        changes: { "src/b.ts": { type: ActionType.ADD, newContent: "again" } },
+      });
+      throw new Error("expected a DiffError");
+    } catch (error) {
+      expect((error as DiffError).code).toBe(DiffErrorCode.FILE_EXISTS);
+    }
+
+    expect(workspace.files).toEqual(orig);
+    expect(workspace.commits).toEqual([]);
+  });
+
+  test("refuses to move a file over an existing one", () => {
+    const workspace = new VirtualWorkspace(orig);
+    const overwrite = `*** Begin Patch
+*** Update File: src/a.ts
+*** Move to: src/b.ts
+ one
+-two
++TWO
+*** End Patch`;
+
+    try {
+      workspace.applyPatch(overwrite);
+      throw new Error("expected a DiffError");
+    } catch (error) {
+      expect((error as DiffError).code).toBe(DiffErrorCode.FILE_EXISTS);
+      expect((error as DiffError).path).toBe("src/b.ts");
+    }
+    expect(workspace.files).toEqual(orig);
+    expect(workspace.canUndo).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * An in-memory file map that patches and commits are applied to, with a
+ * history of every commit that can be undone and redone.
+ */
+
+import {
+  ActionType,
+  DiffError,
+  DiffErrorCode,
+  applyCommitToFiles,
+  invertCommit,
+  patchToCommit,
+  textToPatch,
+  type Commit,
+  type ParseOptions,
+} from "./apply-patch";
+
+function checkCommit(files: Record<string, string>, commit: Commit): void {
+  /**
+   * Ensure *commit* was made against *files*: every file it reads must hold
+   * the commit's `oldContent`, and every file it creates or moves to must
+   * not exist yet, since undoing the commit could not bring it back.
+   */
+  for (const [path, change] of Object.entries(commit.changes)) {
+    const source = change.type === ActionType.COPY ? change.copyFrom! : path;
+    const readsSource = change.type !== ActionType.ADD;
+    if (readsSource && !(source in files)) {
+      throw new DiffError(`Missing file: ${source}`, {
+        code: DiffErrorCode.MISSING_FILE,
+        path: source,
+      });
+    }
+    if (readsSource && change.oldContent !== undefined && files[source] !== change.oldContent) {
+      throw new DiffError(`File changed since the commit was made: ${source}`, {
+        path: source,
+      });
+    }
+    const created =
+      change.type === ActionType.ADD || change.type === ActionType.COPY ? path : change.movePath;
+    if (created !== undefined && created in files) {
+      throw new DiffError(`File already exists: ${created}`, {
+        code: DiffErrorCode.FILE_EXISTS,
+        path: created,
+      });
+    }
+  }
+}
+
+export class VirtualWorkspace {
+  private base: Record<string, string>;
+  private current: Record<string, string>;
+  private history: Commit[] = [];
+  /** Number of commits in `history` currently applied. */
+  private position = 0;
+
+  constructor(files: Record<string, string> = {}) {
+    this.base = { ...files };
+    this.current = { ...files };
+  }
+
+  get files(): Record<string, string> {
+    return { ...this.current };
+  }
+
+  /** Commits currently applied, oldest first. */
+  get commits(): Commit[] {
+    return this.history.slice(0, this.position);
+  }
+
+  get canUndo(): boolean {
+    return this.position > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.position < this.history.length;
+  }
+
+  public read(path: string): string | undefined {
+    return this.current[path];
+  }
+
+  public applyPatch(text: string, options: ParseOptions = {}): Commit {
+    /**
+     * Parse *text* against the current files and apply it. Nothing changes
+     * if the patch fails to parse or apply.
+     */
+    const [patch] = textToPatch(text, this.current, options);
+    const commit = patchToCommit(patch, this.current);
+    this.applyCommit(commit);
+    return commit;
+  }
+
+  public applyCommit(commit: Commit): void {
+    /**
+     * Apply *commit*, which must have been made against the current files.
+     * Commits that were undone can no longer be redone afterwards.
+     */
+    this._advance(commit);
+    this.history.splice(this.position);
+    this.history.push(commit);
+    this.position++;
+  }
+
+  public undo(): Commit | undefined {
+    /**
+     * Revert the last applied commit and return the commit that reverted it,
+     * or undefined when there is nothing to undo.
+     */
+    if (!this.canUndo) {
+      return undefined;
+    }
+    const inverse = invertCommit(this.history[this.position - 1]!);
+    this._advance(inverse);
+    this.position--;
+    return inverse;
+  }
+
+  public redo(): Commit | undefined {
+    /**
+     * Re-apply the last undone commit and return it, or undefined when there
+     * is nothing to redo.
+     */
+    if (!this.canRedo) {
+      return undefined;
+    }
+    const commit = this.history[this.position]!;
+    this._advance(commit);
+    this.position++;
+    return commit;
+  }
+
+  public snapshot(at: number = this.position): Record<string, string> {
+    /**
+     * All files after the first *at* commits of the history, including ones
+     * that were undone; `snapshot(0)` is the initial state.
+     */
+    if (!Number.isInteger(at) || at < 0 || at > this.history.length) {
+      throw new RangeError(`No snapshot ${at}: history has ${this.history.length} commits`);
+    }
+    if (at === this.position) {
+      return this.files;
+    }
+    return this.history
+      .slice(0, at)
+      .reduce((files, commit) => applyCommitToFiles(files, commit), { ...this.base });
+  }
+
+  private _advance(commit: Commit): void {
+    checkCommit(this.current, commit);
+    this.current = applyCommitToFiles(this.current, commit);
+  }
+}
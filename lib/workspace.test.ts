@@ -0,0 +1,159 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  chmodSync,
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ActionType, DiffError, PathPolicyError } from "./apply-patch";
+import { applyCommitToDir, applyPatchToDir } from "./workspace";
+
+describe("workspace", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "partial-edit-"));
+    writeFileSync(join(root, "a.txt"), "one\ntwo\nthree\n");
+    writeFileSync(join(root, "old.txt"), "move me\n");
+    writeFileSync(join(root, "gone.txt"), "bye\n");
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const read = (path: string) => readFileSync(join(root, path), "utf-8");
+
+  test("applies updates, moves, adds and deletes", () => {
+    const commit = applyPatchToDir(
+      root,
+      `*** Begin Patch
+*** Update File: a.txt
+ one
+-two
++TWO
+*** Update File: old.txt
+*** Move to: nested/dir/new.txt
+*** Add File: src/added.txt
++hello
+*** Delete File: gone.txt
+*** End Patch`
+    );
+
+    expect(read("a.txt")).toBe("one\nTWO\nthree\n");
+    expect(read("nested/dir/new.txt")).toBe("move me\n");
+    expect(read("src/added.txt")).toBe("hello");
+    expect(existsSync(join(root, "old.txt"))).toBe(false);
+    expect(existsSync(join(root, "gone.txt"))).toBe(false);
+    expect(Object.keys(commit.changes)).toHaveLength(4);
+    // No temporary files are left behind.
+    expect(readdirSync(root).sort()).toEqual(["a.txt", "nested", "src"]);
+  });
+
+  test("copies files and sets modes", () => {
+    applyPatchToDir(
+      root,
+      `*** Begin Patch
+*** Copy File: a.txt
+*** Copy to: copies/a.txt
+*** Mode: 755
+*** End Patch`
+    );
+
+    expect(read("copies/a.txt")).toBe("one\ntwo\nthree\n");
+    expect(read("a.txt")).toBe("one\ntwo\nthree\n");
+    expect(statSync(join(root, "copies/a.txt")).mode & 0o777).toBe(0o755);
+  });
+
+  test("keeps a file moved onto a deleted path", () => {
+    applyPatchToDir(
+      root,
+      `*** Begin Patch
+*** Delete File: gone.txt
+*** Update File: old.txt
+*** Move to: gone.txt
+*** End Patch`
+    );
+
+    expect(read("gone.txt")).toBe("move me\n");
+    expect(existsSync(join(root, "old.txt"))).toBe(false);
+  });
+
+  test("keeps the permissions of moved and copied files", () => {
+    writeFileSync(join(root, "run.sh"), "echo hi\n");
+    chmodSync(join(root, "run.sh"), 0o755);
+    applyPatchToDir(
+      root,
+      `*** Begin Patch
+*** Copy File: run.sh
+*** Copy to: copies/run.sh
+*** Update File: run.sh
+*** Move to: bin/run.sh
+*** End Patch`
+    );
+
+    expect(statSync(join(root, "bin/run.sh")).mode & 0o777).toBe(0o755);
+    expect(statSync(join(root, "copies/run.sh")).mode & 0o777).toBe(0o755);
+  });
+
+  test("reports adds of files that already exist", () => {
+    expect(() =>
+      applyPatchToDir(root, "*** Begin Patch\n*** Add File: a.txt\n+x\n*** End Patch")
+    ).toThrow(DiffError);
+    expect(read("a.txt")).toBe("one\ntwo\nthree\n");
+  });
+
+  test("reports moves onto files that already exist", () => {
+    expect(() =>
+      applyPatchToDir(root, "*** Begin Patch\n*** Update File: old.txt\n*** Move to: a.txt\n*** End Patch")
+    ).toThrow("move target already exists: a.txt");
+    expect(read("a.txt")).toBe("one\ntwo\nthree\n");
+    expect(read("old.txt")).toBe("move me\n");
+  });
+
+  test("refuses paths outside the root", () => {
+    expect(() =>
+      applyPatchToDir(root, "*** Begin Patch\n*** Add File: ../escaped.txt\n+x\n*** End Patch")
+    ).toThrow(PathPolicyError);
+    expect(() =>
+      applyPatchToDir(root, "*** Begin Patch\n*** Add File: a.txt\n+x\n*** End Patch", {
+        pathPolicy: { deny: ["*.txt"] },
+      })
+    ).toThrow(PathPolicyError);
+  });
+
+  test("restores every file when a write fails midway", () => {
+    const commit = {
+      changes: {
+        "a.txt": { type: ActionType.UPDATE, oldContent: "one\ntwo\nthree\n", newContent: "changed\n" },
+        "new/file.txt": { type: ActionType.ADD, newContent: "created" },
+        // a.txt is a file, so its "directory" cannot be created.
+        "a.txt/c.txt": { type: ActionType.ADD, newContent: "fails" },
+      },
+    };
+
+    expect(() => applyCommitToDir(root, commit)).toThrow();
+    expect(read("a.txt")).toBe("one\ntwo\nthree\n");
+    expect(existsSync(join(root, "new"))).toBe(false);
+    expect(readdirSync(root).sort()).toEqual(["a.txt", "gone.txt", "old.txt"]);
+  });
+
+  test("rejects a change without new content instead of truncating", () => {
+    const commit = {
+      changes: {
+        "a.txt": { type: ActionType.UPDATE, oldContent: "one\ntwo\nthree\n" },
+      },
+    };
+
+    expect(() => applyCommitToDir(root, commit)).toThrow(
+      new DiffError("UPDATE change for a.txt has no new content")
+    );
+    expect(read("a.txt")).toBe("one\ntwo\nthree\n");
+  });
+});
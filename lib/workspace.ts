@@ -0,0 +1,205 @@
+/**
+ * Apply patches to files on disk. Every file is written to a temporary file
+ * and renamed into place; if any step fails, the files already touched are
+ * restored so the directory is left as it was.
+ */
+
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { basename, dirname, join } from "path";
+import {
+  ActionType,
+  DiffError,
+  identifyFilesAdded,
+  identifyFilesNeeded,
+  patchToCommit,
+  textToPatch,
+  type Commit,
+  type FileChange,
+  type ParseOptions,
+} from "./apply-patch";
+import { checkPatchPath, type PathPolicy } from "./path-policy";
+
+export interface RestoreFailure {
+  path: string;
+  error: unknown;
+}
+
+// --------------------------------------------------------------------------- //
+//  Reading
+// --------------------------------------------------------------------------- //
+export function readWorkspaceFiles(root: string, paths: string[]): Record<string, string> {
+  /**
+   * Read the files at *paths* (relative to *root*) that exist.
+   */
+  const files: Record<string, string> = {};
+  for (const path of paths) {
+    const file = join(root, path);
+    if (existsSync(file) && statSync(file).isFile()) {
+      files[path] = readFileSync(file, "utf-8");
+    }
+  }
+  return files;
+}
+
+// --------------------------------------------------------------------------- //
+//  Writing
+// --------------------------------------------------------------------------- //
+let tempCounter = 0;
+
+function writeAtomic(file: string, content: string | Buffer, mode?: number): void {
+  const temp = join(dirname(file), `.${basename(file)}.${process.pid}.${tempCounter++}.tmp`);
+  try {
+    writeFileSync(temp, content);
+    if (mode !== undefined) {
+      chmodSync(temp, mode);
+    } else if (existsSync(file)) {
+      // Keep the permissions of the file being replaced, e.g. executable bits.
+      chmodSync(temp, statSync(file).mode);
+    }
+    renameSync(temp, file);
+  } catch (error) {
+    rmSync(temp, { force: true });
+    throw error;
+  }
+}
+
+export function applyCommitToDir(root: string, commit: Commit): void {
+  /**
+   * Write *commit* to the directory *root*, creating parent directories for
+   * added, copied and moved files. If any write fails, every file changed so
+   * far is restored and the error is rethrown; files that could not be
+   * restored are listed in its `restoreFailures`.
+   */
+  const writes: [string, string, number | undefined][] = [];
+  const removals: string[] = [];
+  // Copies and moves keep the permissions of their source unless given a mode.
+  const sourceMode = (source: string) => {
+    const file = join(root, source);
+    return existsSync(file) ? statSync(file).mode : undefined;
+  };
+  const newContent = (path: string, change: FileChange) => {
+    if (change.newContent === undefined) {
+      throw new DiffError(`${change.type.toUpperCase()} change for ${path} has no new content`, {
+        path,
+      });
+    }
+    return change.newContent;
+  };
+  for (const [path, change] of Object.entries(commit.changes)) {
+    const mode = change.mode !== undefined ? parseInt(change.mode, 8) : undefined;
+    if (change.type === ActionType.DELETE) {
+      removals.push(path);
+    } else if (change.type === ActionType.ADD) {
+      writes.push([path, newContent(path, change), mode]);
+    } else if (change.type === ActionType.COPY) {
+      writes.push([path, newContent(path, change), mode ?? sourceMode(change.copyFrom!)]);
+    } else if (change.type === ActionType.UPDATE) {
+      const target = change.movePath || path;
+      const targetMode = target !== path ? mode ?? sourceMode(path) : mode;
+      writes.push([target, newContent(path, change), targetMode]);
+      if (target !== path) {
+        removals.push(path);
+      }
+    }
+  }
+
+  // A path that is written, e.g. the target of a move, is not also removed.
+  const written = new Set(writes.map(([path]) => path));
+  const removed = removals.filter(path => !written.has(path));
+
+  // What each touched path held before, or undefined if it did not exist.
+  const backups = new Map<string, { content: Buffer; mode: number } | undefined>();
+  const createdDirs: string[] = [];
+  const remember = (file: string) => {
+    if (!backups.has(file)) {
+      backups.set(
+        file,
+        existsSync(file)
+          ? { content: readFileSync(file), mode: statSync(file).mode }
+          : undefined
+      );
+    }
+  };
+
+  try {
+    for (const [path, content, mode] of writes) {
+      const file = join(root, path);
+      const created = mkdirSync(dirname(file), { recursive: true });
+      if (created !== undefined) {
+        createdDirs.push(created);
+      }
+      remember(file);
+      writeAtomic(file, content, mode);
+    }
+    for (const path of removed) {
+      const file = join(root, path);
+      remember(file);
+      rmSync(file, { force: true });
+    }
+  } catch (error) {
+    // Keep restoring after a failure, so one bad file does not strand the rest.
+    const failures: RestoreFailure[] = [];
+    for (const [file, backup] of [...backups].reverse()) {
+      try {
+        if (backup === undefined) {
+          rmSync(file, { force: true });
+        } else {
+          writeAtomic(file, backup.content, backup.mode);
+        }
+      } catch (restoreError) {
+        failures.push({ path: file, error: restoreError });
+      }
+    }
+    for (const dir of createdDirs.reverse()) {
+      try {
+        rmSync(dir, { recursive: true, force: true });
+      } catch (restoreError) {
+        failures.push({ path: dir, error: restoreError });
+      }
+    }
+    if (failures.length && error instanceof Error) {
+      Object.assign(error, { restoreFailures: failures });
+    }
+    throw error;
+  }
+}
+
+export function applyPatchToDir(
+  root: string,
+  text: string,
+  options: ParseOptions = {}
+): Commit {
+  /**
+   * Read the files *text* needs from *root*, apply the patch there and return
+   * the commit that was written (see `createUndoPatch` to revert it). Paths
+   * are held to `options.pathPolicy` with *root* as its root.
+   */
+  const pathPolicy: PathPolicy = { ...options.pathPolicy, root };
+  const paths = [
+    ...identifyFilesNeeded(text),
+    // Read so that adding or moving onto a file that exists is reported.
+    ...identifyFilesAdded(text),
+    ...text
+      .split("\n")
+      .filter(line => line.startsWith("*** Move to: "))
+      .map(line => line.substring("*** Move to: ".length)),
+  ];
+  // Nothing outside the policy is read; parsing reports those paths.
+  const orig = readWorkspaceFiles(
+    root,
+    paths.filter(path => !checkPatchPath(path, pathPolicy))
+  );
+  const [patch] = textToPatch(text, orig, { ...options, pathPolicy });
+  const commit = patchToCommit(patch, orig);
+  applyCommitToDir(root, commit);
+  return commit;
+}